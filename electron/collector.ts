@@ -0,0 +1,68 @@
+import { parentPort, workerData } from 'node:worker_threads'
+import { initDB, closeDB } from './services/Database.js';
+import { configureHistory } from './services/HistoryService.js';
+import { ProcessCollector, CollectorRequest, CollectorResponse, CollectorWorkerData } from './services/ProcessCollector.js';
+import { getErrorMessage } from './utils/ErrorUtils.js';
+
+// Collector worker: sampling, DB enrichment and history writes run here,
+// off the Electron main thread. The main process talks to it via CollectorClient.
+
+if (!parentPort) {
+  throw new Error('collector must be started as a worker thread');
+}
+
+const port = parentPort;
+const { dbPath, historyRetention, analysisTtl } = workerData as CollectorWorkerData;
+
+initDB(dbPath);
+configureHistory(historyRetention);
+
+const collector = new ProcessCollector(analysisTtl);
+let collecting = false;
+
+async function handle(request: CollectorRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'collect':
+      // The client never overlaps ticks, this only guards against a misbehaving caller
+      if (collecting) {
+        throw new Error('Collection already in progress');
+      }
+      collecting = true;
+      try {
+        return await collector.collect(request.options);
+      } finally {
+        collecting = false;
+      }
+    case 'snapshot':
+      return collector.snapshot();
+    case 'latest':
+      return collector.getLatest();
+    case 'connections':
+      return collector.getConnections(request.pid);
+    case 'configure-history':
+      configureHistory(request.config);
+      return true;
+    case 'configure-analysis-ttl':
+      collector.configureAnalysisTtl(request.ttl);
+      return true;
+    case 'shutdown':
+      collector.cleanup();
+      closeDB();
+      return true;
+  }
+}
+
+port.on('message', async (request: CollectorRequest) => {
+  let response: CollectorResponse;
+  try {
+    response = { id: request.id, ok: true, result: await handle(request) };
+  } catch (error) {
+    response = { id: request.id, ok: false, error: getErrorMessage(error) };
+  }
+
+  port.postMessage(response);
+
+  if (request.type === 'shutdown') {
+    port.close();
+  }
+});
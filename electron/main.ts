@@ -1,13 +1,22 @@
 import { app, BrowserWindow, ipcMain } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
-import si from 'systeminformation'
 import Store from 'electron-store';
-import { initDB, getAnalysis, getDevModeAnalysis } from './services/Database.js'; // Use .js extension for ESM usage in TS if needed, or rely on bundler. Electron with TS usually resolves .ts without extension or with .js if using ES modules. Let's try without extension or checking config. Vite usually handles this. But 'type': 'module' in package.json implies ESM. 
+import { initDB, getAnalysis, getDevModeAnalysis, countOutdatedAnalyses } from './services/Database.js'; // Use .js extension for ESM usage in TS if needed, or rely on bundler. Electron with TS usually resolves .ts without extension or with .js if using ES modules. Let's try without extension or checking config. Vite usually handles this. But 'type': 'module' in package.json implies ESM. 
 // Actually, for electron-vite, imports usually work without extensions or with proper resolution.
 // Safe bet: .ts files in electron folder are compiled.
-import { initGemini, analyzeProcessesBatch, isAnalyzing, ProcessInfo, initOpenRouter, analyzeDevModeBatch } from './services/AIService.js';
-import { PowerShellService } from './utils/PowerShellService.js';
+import { initGemini, analyzeProcessesBatch, isAnalyzing, cancelAnalysis, ProcessInfo, initOpenRouter, analyzeDevModeBatch, configureLocalProvider, configureProviderChain, getProviderStatus, testLocalProvider } from './services/AIService.js';
+import { LocalProviderConfig, normalizeLocalProviderConfig } from './services/middleware/LocalProvider.js';
+import { ProviderChainEntry, normalizeProviderChain } from './utils/providerChain.js';
+import { configureUsage, getUsageSettings, getUsageReport, UsageSettings } from './services/UsageService.js';
+import { validateTemplate } from './utils/promptTemplates.js';
+import { AnalysisTtlConfig, normalizeAnalysisTtl, isAnalysisStale } from './utils/analysisExpiry.js';
+import { configurePromptTemplates, getPromptTemplates, getTemplateVersion, PromptTemplateOverrides } from './services/PromptTemplateService.js';
+import { askAboutProcess, getProcessChat, clearProcessChat } from './services/ProcessChatService.js';
+import { configureHistory, getHistoryRetention, queryProcessHistory, HistoryRetentionConfig, ProcessSeriesQuery } from './services/HistoryService.js';
+import { CollectorClient } from './services/CollectorClient.js';
+import { PollingScheduler, DEFAULT_POLL_INTERVAL, normalizePollInterval } from './services/PollingScheduler.js';
+import { getErrorMessage, isCancellationError } from './utils/ErrorUtils.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -18,6 +27,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url))
 // │ │
 // │ ├─┬ dist-electron
 // │ │ ├── main.js
+// │ │ ├── collector.js
 // │ │ └── preload.mjs
 // │
 process.env.APP_ROOT = path.join(__dirname, '..')
@@ -31,7 +41,7 @@ process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL ? path.join(process.env.APP_ROOT,
 
 let win: BrowserWindow | null
 const store = new Store();
-let powerShellService: PowerShellService | null = null;
+let collector: CollectorClient | null = null;
 
 function createWindow() {
   win = new BrowserWindow({
@@ -47,6 +57,10 @@ function createWindow() {
     win?.webContents.send('main-process-message', (new Date).toLocaleString())
   })
 
+  // Leave the hidden back-off as soon as the window is visible again
+  win.on('restore', () => scheduler?.reschedule())
+  win.on('show', () => scheduler?.reschedule())
+
   if (VITE_DEV_SERVER_URL) {
     win.loadURL(VITE_DEV_SERVER_URL)
   } else {
@@ -59,66 +73,64 @@ function createWindow() {
 
 // --- System Monitoring ---
 
-const POLL_INTERVAL = 2000;
-let monitorInterval: NodeJS.Timeout | null = null;
+// Sampling, enrichment and history writes run in the collector worker; main only relays
+let scheduler: PollingScheduler | null = null;
 
 async function fetchProcesses() {
-  if (!win || win.isDestroyed()) return;
+  if (!win || win.isDestroyed() || !collector) return;
+
   try {
-    // Fetch both systeminformation data and PowerShell Private Memory data in parallel
-    const [processes, privateMemStats] = await Promise.all([
-      si.processes(),
-      powerShellService?.getPrivateMemoryStats() || Promise.resolve([])
-    ]);
-    
-    // Create a Map for O(1) lookup of Private Memory by PID
-    const privateMemMap = new Map<number, number>();
-    for (const stat of privateMemStats) {
-      privateMemMap.set(stat.Id, stat.PrivateMemorySize64);
-    }
-    
-    // Enrich with Analysis Data from DB cache and PowerShell Private Memory
-    // Memory Metrics Explanation (Windows):
-    // - memRss (Resident Set Size): Memory currently in RAM, closest approximation to "Working Set"
-    // - memVsz (Virtual Size): Total committed memory including paged to disk
-    // - privateMemory: TRUE Private Working Set from PowerShell (most accurate)
     const devModeEnabled = store.get('devModeEnabled', false) as boolean;
-    const enrichedList = processes.list.map((p: any) => {
-      const analysis = devModeEnabled ? getDevModeAnalysis(p.name) : getAnalysis(p.name);
-      const privateMemoryBytes = privateMemMap.get(p.pid);
-      
-      return { 
-        ...p, 
-        mem: (p.memRss || 0) * 1024, 
-        memRss: (p.memRss || 0) * 1024, 
-        memVirtual: (p.memVsz || 0) * 1024, 
-        privateMemory: privateMemoryBytes ? privateMemoryBytes / (1024 * 1024) : undefined, 
-        memPct: p.mem, 
-        analysis: analysis || null 
-      };
-    });
+    const result = await collector.collect({ devModeEnabled });
+
+    const intervalMs = scheduler?.getState().effectiveIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    if (result.durationMs > intervalMs) {
+      console.warn(`[Main] Collection of ${result.processCount} processes took ${result.durationMs}ms (interval ${intervalMs}ms)`);
+    }
 
-    win.webContents.send('processes-update', enrichedList);
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('processes-update', result.update);
+      if (result.system) {
+        win.webContents.send('system-update', result.system);
+      }
+    }
   } catch (error) {
     console.error('Failed to fetch processes:', error);
   }
 }
 
+function isWindowHidden(): boolean {
+  return !win || win.isDestroyed() || win.isMinimized() || !win.isVisible();
+}
+
 function startMonitoring() {
-  if (monitorInterval) return;
-  monitorInterval = setInterval(fetchProcesses, POLL_INTERVAL);
-  fetchProcesses();
+  if (scheduler?.isRunning()) return;
+
+  scheduler ??= new PollingScheduler({
+    intervalMs: store.get('pollIntervalMs', DEFAULT_POLL_INTERVAL) as number,
+    task: fetchProcesses,
+    isHidden: isWindowHidden,
+    onOverrun: (skipped) => {
+      // Never queue ticks behind a slow collection, skip and report instead
+      if (win && !win.isDestroyed()) {
+        win.webContents.send('collector-overrun', { skipped, pollInterval: scheduler?.getState().effectiveIntervalMs });
+      }
+    }
+  });
+  scheduler.start();
 }
 
 function stopMonitoring() {
-  if (monitorInterval) {
-    clearInterval(monitorInterval);
-    monitorInterval = null;
-  }
+  scheduler?.stop();
 }
 
 // --- IPC Handlers ---
 
+// Renderer detected a sequence gap (or just loaded) and needs the full state
+ipcMain.handle('processes-resync', async () => {
+  return collector ? collector.snapshot() : null;
+});
+
 ipcMain.handle('kill-process', async (_event, pid: number) => {
   console.log(`Request to kill process: ${pid}`);
   if (pid === 0 || pid === 4) {
@@ -159,32 +171,78 @@ ipcMain.handle('get-openrouter-api-key', () => {
     return store.get('openRouterApiKey');
 });
 
-ipcMain.handle('batch-analyze', async () => {
+ipcMain.handle('get-local-provider', () => {
+    return normalizeLocalProviderConfig(store.get('localProvider', {}) as Partial<LocalProviderConfig>);
+});
+
+ipcMain.handle('set-local-provider', (_event, config: Partial<LocalProviderConfig>) => {
+    const normalized = normalizeLocalProviderConfig(config);
+    store.set('localProvider', normalized);
+    configureLocalProvider(normalized, win?.webContents);
+    return true;
+});
+
+ipcMain.handle('test-local-provider', async (_event, config: Partial<LocalProviderConfig>, model?: string) => {
+  try {
+    return { success: true, ...(await testLocalProvider(config, model)) };
+  } catch (error) {
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+ipcMain.handle('get-provider-chain', () => {
+    return getProviderStatus();
+});
+
+ipcMain.handle('set-provider-chain', (_event, chain: ProviderChainEntry[]) => {
+    const normalized = normalizeProviderChain(chain);
+    store.set('providerChain', normalized);
+    configureProviderChain(normalized);
+    return true;
+});
+
+interface BatchAnalyzeOptions {
+  reanalyzeOutdated?: boolean; // Also redo cached analyses made with an older prompt template
+  refreshStale?: boolean;      // Only redo cached analyses past their TTL, nothing else
+}
+
+ipcMain.handle('batch-analyze', async (_event, options?: BatchAnalyzeOptions) => {
   if (isAnalyzing()) {
     return { success: false, error: 'Analysis already in progress' };
   }
 
   try {
-    // Get current processes snapshot
-    const processes = await si.processes();
-    const totalProcesses = processes.list.length;
+    // Processes from the collector's last tick
+    const processes = collector ? await collector.latest() : [];
+    const totalProcesses = processes.length;
     
-    // Filter out processes we already have analysis for
-    const needAnalysis = processes.list.filter((p: any) => !getAnalysis(p.name));
+    // Filter out processes we already have analysis for (per executable identity)
+    // Executables still being hashed are left for the next run rather than cached under a guess
+    const templateVersion = getTemplateVersion('standard');
+    const ttl = normalizeAnalysisTtl(store.get('analysisTtl'));
+    const needAnalysis = processes.filter(p => {
+      if (p.identity === null) return false;
+      const cached = getAnalysis(p.name, p.identity);
+      if (options?.refreshStale) return cached !== undefined && isAnalysisStale(cached, ttl);
+      return !cached || (options?.reanalyzeOutdated === true && cached.template_version !== templateVersion);
+    });
     const alreadyAnalyzed = totalProcesses - needAnalysis.length;
     
-    console.log(`[Main] Process analysis status: ${totalProcesses} total, ${alreadyAnalyzed} already analyzed, ${needAnalysis.length} need analysis`);
+    console.log(`[Main] Process analysis status: ${totalProcesses} total, ${alreadyAnalyzed} already analyzed, ${needAnalysis.length} need analysis${options?.refreshStale ? ' (stale only)' : ''}`);
     
     if (needAnalysis.length === 0) {
-      return { success: true, message: 'All processes already analyzed', count: 0 };
+      return { success: true, message: options?.refreshStale ? 'No stale analyses to refresh' : 'All processes already analyzed', count: 0 };
     }
 
     // Convert to ProcessInfo format
-    // Use privateMemory from PowerShell if available, otherwise fall back to memRss
-    const processInfo: ProcessInfo[] = needAnalysis.map((p: any) => ({
+    // Use private memory from the platform provider if available, otherwise fall back to memRss
+    const processInfo: ProcessInfo[] = needAnalysis.map(p => ({
       name: p.name,
       cpu: p.cpu || 0,
-      mem: p.privateMemory || ((p.memRss || 0) / 1024) // Use Private Memory (MB) from PowerShell, fallback to RSS
+      mem: p.privateMemory ?? p.memRss / (1024 * 1024), // Private Memory (MB), fallback to RSS
+      net: p.net,
+      identity: p.identity ?? '',
+      path: p.exePath
     }));
 
     console.log(`[Main] Sending ${processInfo.length} unanalyzed processes to AI service (may include duplicate process names)`);
@@ -197,11 +255,164 @@ ipcMain.handle('batch-analyze', async () => {
       message: `Successfully analyzed ${results.length} processes`
     };
   } catch (error: any) {
+    if (isCancellationError(error)) {
+      return { success: false, cancelled: true, error: error.message };
+    }
     console.error('[Main] Batch analysis failed:', error);
     return { success: false, error: error.message };
   }
 });
 
+ipcMain.handle('cancel-analysis', () => {
+  return { success: cancelAnalysis() };
+});
+
+// Usage IPC Handlers
+ipcMain.handle('get-usage-report', (_event, days?: number) => {
+  return getUsageReport(days);
+});
+
+ipcMain.handle('get-usage-settings', () => {
+  return getUsageSettings();
+});
+
+ipcMain.handle('set-usage-settings', (_event, settings: Partial<UsageSettings>) => {
+  configureUsage(settings);
+  store.set('usage', getUsageSettings());
+  return { success: true };
+});
+
+// Prompt Template IPC Handlers
+ipcMain.handle('get-prompt-templates', () => {
+  return {
+    ...getPromptTemplates(),
+    outdated: {
+      standard: countOutdatedAnalyses('process_analysis', getTemplateVersion('standard')),
+      devmode: countOutdatedAnalyses('devmode_analysis', getTemplateVersion('devmode'))
+    }
+  };
+});
+
+ipcMain.handle('set-prompt-templates', (_event, overrides: PromptTemplateOverrides) => {
+  for (const [kind, template] of Object.entries(overrides)) {
+    const problem = template?.trim() ? validateTemplate(template) : null;
+    if (problem) return { success: false, error: `${kind}: ${problem}` };
+  }
+  configurePromptTemplates(overrides);
+  store.set('promptTemplates', overrides);
+  return { success: true };
+});
+
+// Analysis Cache Expiry IPC Handlers
+ipcMain.handle('get-analysis-ttl', () => {
+  return normalizeAnalysisTtl(store.get('analysisTtl'));
+});
+
+ipcMain.handle('set-analysis-ttl', (_event, ttl: Partial<AnalysisTtlConfig>) => {
+  const normalized = normalizeAnalysisTtl(ttl);
+  store.set('analysisTtl', normalized);
+  // Staleness is marked by the collector worker
+  collector?.configureAnalysisTtl(normalized).catch(error => {
+    console.error('[Main] Failed to update collector analysis TTL:', error);
+  });
+  return true;
+});
+
+// Polling IPC Handlers
+ipcMain.handle('get-poll-interval', () => {
+  return normalizePollInterval(store.get('pollIntervalMs', DEFAULT_POLL_INTERVAL));
+});
+
+ipcMain.handle('set-poll-interval', (_event, intervalMs: number) => {
+  const normalized = normalizePollInterval(intervalMs);
+  store.set('pollIntervalMs', normalized);
+  scheduler?.setInterval(normalized);
+  return normalized;
+});
+
+ipcMain.handle('get-polling-state', () => {
+  return scheduler?.getState() ?? null;
+});
+
+// Collect immediately instead of waiting for the next tick
+ipcMain.handle('sample-now', async () => {
+  if (!scheduler) {
+    return { success: false, error: 'Monitoring has not started' };
+  }
+  const sampled = await scheduler.sampleNow();
+  return sampled ? { success: true } : { success: false, error: 'A collection is already running' };
+});
+
+// Sockets of one process (the update stream only carries the summary)
+ipcMain.handle('get-process-connections', async (_event, pid: number) => {
+  try {
+    return { success: true, connections: collector ? await collector.connections(pid) : [] };
+  } catch (error) {
+    console.error(`[Main] Failed to get connections for ${pid}:`, error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+// Process History IPC Handlers
+ipcMain.handle('get-process-history', (_event, query: Partial<ProcessSeriesQuery>) => {
+  const to = query.to ?? Date.now();
+  const from = query.from ?? to - 60 * 60 * 1000; // Default: last hour
+
+  try {
+    return { success: true, samples: queryProcessHistory({ pid: query.pid, processName: query.processName, from, to }) };
+  } catch (error) {
+    console.error('[Main] Failed to query process history:', error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+// Process Chat IPC Handlers
+ipcMain.handle('get-process-chat', (_event, key: { processName: string; identity: string }) => {
+  try {
+    return { success: true, messages: getProcessChat(key.processName, key.identity) };
+  } catch (error) {
+    console.error('[Main] Failed to load process chat:', error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+ipcMain.handle('send-process-chat', async (_event, request: { pid: number; question: string }) => {
+  try {
+    // Ground the answer in this tick's metrics rather than whatever the renderer last saw
+    const processes = collector ? await collector.latest() : [];
+    const process = processes.find(p => p.pid === request.pid);
+    if (!process) {
+      return { success: false, error: 'Process is no longer running' };
+    }
+    return { success: true, messages: await askAboutProcess(process, request.question) };
+  } catch (error) {
+    console.error('[Main] Process chat failed:', error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+ipcMain.handle('clear-process-chat', (_event, key: { processName: string; identity: string }) => {
+  try {
+    return { success: true, cleared: clearProcessChat(key.processName, key.identity) };
+  } catch (error) {
+    return { success: false, error: getErrorMessage(error) };
+  }
+});
+
+ipcMain.handle('get-history-retention', () => {
+  return getHistoryRetention();
+});
+
+ipcMain.handle('set-history-retention', (_event, config: Partial<HistoryRetentionConfig>) => {
+  store.set('historyRetention', config);
+  configureHistory(config);
+  // Compaction runs in the collector worker
+  collector?.configureHistory(config).catch(error => {
+    console.error('[Main] Failed to update collector history retention:', error);
+  });
+  return true;
+});
+
 // Dev Mode IPC Handlers
 ipcMain.handle('get-dev-mode', () => {
   return store.get('devModeEnabled', false);
@@ -212,25 +423,21 @@ ipcMain.handle('set-dev-mode', (_event, enabled: boolean) => {
   return true;
 });
 
-ipcMain.handle('batch-analyze-devmode', async () => {
+ipcMain.handle('batch-analyze-devmode', async (_event, options?: BatchAnalyzeOptions) => {
   if (isAnalyzing()) {
     return { success: false, error: 'Analysis already in progress' };
   }
 
   try {
-    const processes = await si.processes();
-    const [_, privateMemStats] = await Promise.all([
-      Promise.resolve(),
-      powerShellService?.getPrivateMemoryStats() || Promise.resolve([])
-    ]);
+    const processes = collector ? await collector.latest() : [];
     
-    const privateMemMap = new Map<number, number>();
-    for (const stat of privateMemStats) {
-      privateMemMap.set(stat.Id, stat.PrivateMemorySize64);
-    }
-    
-    const totalProcesses = processes.list.length;
-    const needAnalysis = processes.list.filter((p: any) => !getDevModeAnalysis(p.name));
+    const totalProcesses = processes.length;
+    const templateVersion = getTemplateVersion('devmode');
+    const needAnalysis = processes.filter(p => {
+      if (p.identity === null) return false;
+      const cached = getDevModeAnalysis(p.name, p.identity);
+      return !cached || (options?.reanalyzeOutdated === true && cached.template_version !== templateVersion);
+    });
     const alreadyAnalyzed = totalProcesses - needAnalysis.length;
     
     console.log(`[Main] [Dev Mode] Process analysis status: ${totalProcesses} total, ${alreadyAnalyzed} already analyzed, ${needAnalysis.length} need analysis`);
@@ -240,16 +447,19 @@ ipcMain.handle('batch-analyze-devmode', async () => {
     }
 
     // Convert to ProcessInfo with both PWS and WS
-    const processInfo: ProcessInfo[] = needAnalysis.map((p: any) => {
-      const privateMemoryBytes = privateMemMap.get(p.pid);
-      const privateMemoryMB = privateMemoryBytes ? privateMemoryBytes / (1024 * 1024) : (p.memRss || 0) / 1024;
-      const totalWorkingSetMB = (p.memRss || 0) / 1024; // KB to MB
+    const processInfo: ProcessInfo[] = needAnalysis.map(p => {
+      const totalWorkingSetMB = p.memRss / (1024 * 1024); // bytes to MB
       
       return {
         name: p.name,
         cpu: p.cpu || 0,
-        mem: privateMemoryMB, 
-        memRss: totalWorkingSetMB 
+        mem: p.privateMemory ?? totalWorkingSetMB, 
+        memRss: totalWorkingSetMB,
+        growthMbPerHour: p.leak?.growthMbPerHour,
+        handles: p.handles,
+        handleGrowthPerHour: p.handleLeak?.growthPerHour,
+        identity: p.identity ?? '',
+        path: p.exePath
       };
     });
 
@@ -263,6 +473,9 @@ ipcMain.handle('batch-analyze-devmode', async () => {
       message: `Successfully analyzed ${results.length} processes in Dev Mode`
     };
   } catch (error: any) {
+    if (isCancellationError(error)) {
+      return { success: false, cancelled: true, error: error.message };
+    }
     console.error('[Main] [Dev Mode] Batch analysis failed:', error);
     return { success: false, error: error.message };
   }
@@ -270,7 +483,6 @@ ipcMain.handle('batch-analyze-devmode', async () => {
 
 app.on('window-all-closed', () => {
   stopMonitoring();
-  powerShellService?.cleanup();
   if (process.platform !== 'darwin') {
     app.quit()
     win = null
@@ -284,10 +496,19 @@ app.on('activate', () => {
 })
 
 app.whenReady().then(() => {
-  initDB();
+  const dbPath = path.join(app.getPath('userData'), 'chunkchop.db');
+  const historyRetention = store.get('historyRetention', {}) as Partial<HistoryRetentionConfig>;
+  initDB(dbPath);
+  configureHistory(historyRetention);
+  configureUsage(store.get('usage', {}) as Partial<UsageSettings>);
+  configurePromptTemplates(store.get('promptTemplates', {}) as PromptTemplateOverrides);
   
-  // Initialize PowerShell service for Private Memory metrics
-  powerShellService = new PowerShellService();
+  // Start the collector worker (owns the platform memory metrics provider and history writes)
+  collector = new CollectorClient(path.join(__dirname, 'collector.js'), {
+    dbPath,
+    historyRetention,
+    analysisTtl: normalizeAnalysisTtl(store.get('analysisTtl'))
+  });
   
   const apiKey = store.get('geminiApiKey') as string;
   const openRouterKey = store.get('openRouterApiKey') as string;
@@ -300,11 +521,17 @@ app.whenReady().then(() => {
   if (openRouterKey) {
       initOpenRouter(openRouterKey);
   }
+
+  // Before the provider chain existed, the local model was placed with a primary/fallback role
+  const localSettings = store.get('localProvider', {}) as Partial<LocalProviderConfig> & { role?: string };
+  configureLocalProvider(localSettings, win?.webContents);
+  configureProviderChain(normalizeProviderChain(store.get('providerChain'), localSettings.role));
   
   startMonitoring();
 });
 
-// Cleanup PowerShell service before quit
+// Stop the collector worker (and its memory metrics provider) before quit
 app.on('before-quit', () => {
-  powerShellService?.cleanup();
+  stopMonitoring();
+  collector?.stop();
 });
@@ -1,24 +1,90 @@
+import type { WebContents } from 'electron';
 import { saveAnalysis, AnalysisResult, saveDevModeAnalysis, DevModeAnalysisResult } from './Database.js';
+import { AIProvider, ChatMessage, CompletionRequest, CompletionResponse, promptRequest } from './middleware/AIProvider.js';
 import { GeminiProvider } from './middleware/GeminiProvider.js';
 import { OpenRouterProvider } from './middleware/OpenRouterProvider.js';
+import { LocalProvider, LocalProviderConfig, normalizeLocalProviderConfig } from './middleware/LocalProvider.js';
 import { withRetry } from './middleware/RetryMiddleware.js';
+import { RateLimiter } from './middleware/RateLimiter.js';
+import { recordProviderCall, getBudgetStatus, ProviderCall } from './UsageService.js';
 import { 
   deduplicateProcesses, 
-  buildOptimizedPrompt,
-  buildDevModePrompt,
+  reconcileResults,
+  runWithConcurrency,
   ProcessInfo
 } from '../utils/ProcessUtils.js';
-import { createProcessBatches } from '../utils/llmBatching.js';
-import { getErrorMessage } from '../utils/ErrorUtils.js';
+import {
+  AnalysisTask,
+  ParsedResults,
+  InvalidRow,
+  processAnalysisTask,
+  devModeAnalysisTask,
+  describeInvalidRow,
+  buildRepairPrompt
+} from '../utils/analysisTasks.js';
+import {
+  ProviderChainEntry,
+  ProviderId,
+  TokenBudget,
+  DEFAULT_PROVIDER_CHAIN,
+  DEFAULT_RATE_LIMITS,
+  normalizeProviderChain
+} from '../utils/providerChain.js';
+import { createProcessBatches, splitBatch, estimateTokens } from '../utils/llmBatching.js';
+import { CHAT_OUTPUT_TOKENS } from '../utils/processChat.js';
+import {
+  getErrorMessage,
+  isContextLengthError,
+  isRateLimitError,
+  getRetryAfterMs,
+  ANALYSIS_CANCELLED
+} from '../utils/ErrorUtils.js';
 
 // Re-export ProcessInfo for consumers
 export type { ProcessInfo };
 
+export interface ProcessCoverage {
+  name: string;
+  identity: string;
+  analyzed: boolean;
+  attempts: number; // Batches the process was sent in, follow-ups included
+}
+
+// What a provider call was made for, recorded in the usage ledger
+type CallInfo = Pick<ProviderCall, 'mode' | 'purpose' | 'retries'>;
+
+export interface ProviderStatus extends ProviderChainEntry {
+  name: string;
+  ready: boolean; // Has a key / endpoint, so it can take part when enabled
+}
+
 // Module state
 const geminiProvider = new GeminiProvider();
 const openRouterProvider = new OpenRouterProvider();
+const localProvider = new LocalProvider();
+const providers: Record<ProviderId, AIProvider> = {
+  openrouter: openRouterProvider,
+  gemini: geminiProvider,
+  local: localProvider
+};
+let providerChain: ProviderChainEntry[] = normalizeProviderChain(DEFAULT_PROVIDER_CHAIN);
+const rateLimiters: Record<ProviderId, RateLimiter> = {
+  openrouter: new RateLimiter(openRouterProvider.name, DEFAULT_RATE_LIMITS.openrouter),
+  gemini: new RateLimiter(geminiProvider.name, DEFAULT_RATE_LIMITS.gemini),
+  local: new RateLimiter(localProvider.name, DEFAULT_RATE_LIMITS.local)
+};
 let webContents: any = null;
 let isProcessing = false;
+let activeRun: AbortController | null = null;
+
+// Follow-up batches for processes the model left out of its answer
+const MAX_FOLLOW_UP_ROUNDS = 2;
+
+// Batches in flight across all providers; each provider's own limit still applies
+const MAX_CONCURRENT_BATCHES = 4;
+
+// Pause after a 429 that didn't say how long to wait
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 15000;
 
 export function initGemini(apiKey: string, wc: any) {
   if (!apiKey) return;
@@ -32,209 +98,176 @@ export function initOpenRouter(apiKey: string) {
 }
 
 /**
- * Analyze a batch of processes in a single API call with automatic retry
- * @param processes Array of process info to analyze
- * @returns Promise that resolves when batch analysis is complete
+ * Connection settings for the local OpenAI-compatible / Ollama server
+ * Whether and where it is used is decided by the provider chain
  */
-export async function analyzeProcessesBatch(processes: ProcessInfo[]): Promise<AnalysisResult[]> {
-  if (!geminiProvider.isInitialized()) {
-    throw new Error('Gemini API not initialized. Please set API key first.');
-  }
-
-  if (isProcessing) {
-    throw new Error('Batch analysis already in progress');
-  }
-
-  if (processes.length === 0) {
-    return [];
-  }
-
-  // Deduplicate processes by name to reduce token usage
-  const uniqueProcesses = deduplicateProcesses(processes);
-  const duplicateInstances = processes.length - uniqueProcesses.length;
-  
-  if (duplicateInstances > 0) {
-    const message = `Deduplication: ${processes.length} unanalyzed process instances → ${uniqueProcesses.length} unique process names (removed ${duplicateInstances} duplicate instances)`;
-    console.log(`[AI Service] ${message}`);
-    logToUI('info', message);
-  } else {
-    console.log(`[AI Service] All ${uniqueProcesses.length} unanalyzed processes have unique names, no deduplication needed`);
-  }
+export function configureLocalProvider(config: Partial<LocalProviderConfig>, wc?: WebContents) {
+  localProvider.configure(normalizeLocalProviderConfig(config));
+  if (wc) webContents = wc;
+}
 
-  if (uniqueProcesses.length === 0) {
-    return [];
+/**
+ * Order, models, params and enable toggles of the providers, from settings
+ */
+export function configureProviderChain(chain: ProviderChainEntry[]) {
+  providerChain = normalizeProviderChain(chain);
+  for (const entry of providerChain) {
+    rateLimiters[entry.id].configure(entry);
   }
+  console.log(`[AI Service] Provider chain: ${providerChain.filter(e => e.enabled).map(e => `${providers[e.id].name} (${e.model})`).join(' → ') || 'none'}`);
+}
 
-  isProcessing = true;
-
-  try {
-    // Use dynamic batching strategy (target 32 processes per batch)
-    const chunks = createProcessBatches(uniqueProcesses);
-    
-    if (chunks.length > 1) {
-      const message = `Split ${uniqueProcesses.length} processes into ${chunks.length} batches using dynamic batching`;
-      console.log(`[AI Service] ${message}`);
-      logToUI('info', message);
-    }
+export function getProviderStatus(): ProviderStatus[] {
+  return providerChain.map(entry => ({
+    ...entry,
+    name: providers[entry.id].name,
+    ready: providers[entry.id].isInitialized()
+  }));
+}
 
-    const allResults: AnalysisResult[] = [];
+/**
+ * Send a one-line prompt to a local endpoint to check the URL, model and response format
+ */
+export async function testLocalProvider(config: Partial<LocalProviderConfig>, model?: string): Promise<{ model: string; latencyMs: number }> {
+  const provider = new LocalProvider();
+  provider.configure(normalizeLocalProviderConfig(config));
 
-    // Process each chunk sequentially
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const message = `Processing batch ${i + 1}/${chunks.length} (${chunk.length} processes)...`;
-      console.log(`[AI Service] ${message}`);
-      logToUI('info', message);
-      
-      // Notify UI of batch progress
-      if (webContents && !webContents.isDestroyed()) {
-        webContents.send('batch-analysis-progress', {
-          currentBatch: i + 1,
-          totalBatches: chunks.length,
-          processesInBatch: chunk.length
-        });
-      }
+  const startedAt = Date.now();
+  const response = await provider.complete(promptRequest('Reply with the single word OK.', model));
+  return { model: response.model, latencyMs: Date.now() - startedAt };
+}
 
-      const results = await analyzeProcessChunk(chunk);
-      allResults.push(...results);
-      
-      // Save results immediately after processing the chunk
-      saveBatchAnalysis(results);
-      console.log(`[AI Service] Saved ${results.length} analysis results to database`);
-    }
+/**
+ * Enabled providers in chain order, skipping the ones without a key or endpoint
+ */
+function getProviderChain(): Array<{ provider: AIProvider; entry: ProviderChainEntry }> {
+  return providerChain
+    .filter(entry => entry.enabled && providers[entry.id].isInitialized())
+    .map(entry => ({ provider: providers[entry.id], entry }));
+}
 
-    // Notify UI of completion
-    if (webContents && !webContents.isDestroyed()) {
-      webContents.send('batch-analysis-complete', {
-        count: allResults.length,
-        timestamp: new Date().toISOString()
-      });
-    }
+/**
+ * Batches are sized for the tightest budget in the chain, so any fallback can take them
+ */
+function getBatchBudget(): TokenBudget {
+  const chain = getProviderChain();
+  return {
+    contextTokens: Math.min(...chain.map(({ entry }) => entry.contextTokens)),
+    maxOutputTokens: Math.min(...chain.map(({ entry }) => entry.maxOutputTokens))
+  };
+}
 
-    return allResults;
+/**
+ * Analysis can run as soon as one enabled provider is ready
+ */
+export function hasReadyProvider(): boolean {
+  return getProviderChain().length > 0;
+}
 
-  } catch (error) {
-    console.error('[AI Service] Batch analysis failed:', error);
-    throw error;
-  } finally {
-    isProcessing = false;
-  }
+export interface ChatAnswer {
+  text: string;
+  provider: string;
+  model: string;
 }
 
 /**
- * Analyze a single chunk of processes with provider fallback and retry logic
+ * One chat turn, through the same provider chain, rate limits and usage ledger as analysis
+ * Runs alongside analysis runs; the next provider is tried when one fails
+ * @param buildMessages Conversation fitted to a provider's context window
  */
-async function analyzeProcessChunk(processes: ProcessInfo[]): Promise<AnalysisResult[]> {
-  const prompt = buildOptimizedPrompt(processes);
-  let openRouterError: any = null;
+export async function completeChat(buildMessages: (contextTokens: number) => ChatMessage[]): Promise<ChatAnswer> {
+  if (!hasReadyProvider()) {
+    throw new Error('No AI provider ready. Enable a provider with an API key or a local endpoint in Settings.');
+  }
+  assertWithinBudget();
 
-  // 1. Try OpenRouter first (if initialized)
-  if (openRouterProvider.isInitialized()) {
-    console.log('[AI Service] Attempting analysis with OpenRouter (primary)');
-    notifyProviderSelection('OpenRouter');
+  const errors: string[] = [];
+  for (const { provider, entry } of getProviderChain()) {
+    const request: CompletionRequest = { messages: buildMessages(entry.contextTokens), model: entry.model, params: entry.params };
 
     try {
-      return await withRetry(
-        () => openRouterProvider.analyze(processes, prompt),
+      let attempt = 0;
+      const response = await withRetry(
+        async () => {
+          const response = await limitedComplete(provider, entry, request, CHAT_OUTPUT_TOKENS, { mode: 'Chat', purpose: 'chat', retries: attempt++ });
+          if (!response.text.trim()) throw new Error(`${provider.name} returned an empty answer`);
+          return response;
+        },
         {
-          maxRetries: 3,
-          onRetry: (attempt) => notifyRetry('OpenRouter', attempt, 3)
+          maxRetries: 2,
+          onRetry: (_attempt, error) => {
+            if (isRateLimitError(error)) {
+              rateLimiters[entry.id].pause(getRetryAfterMs(error) ?? DEFAULT_RATE_LIMIT_PAUSE_MS);
+            }
+          }
         }
       );
+      const text = response.text.trim();
+      return {
+        text: response.truncated ? `${text}\n\n[Answer cut off at the output token limit]` : text,
+        provider: provider.name,
+        model: response.model
+      };
     } catch (error) {
-      openRouterError = error;
-      console.warn(`[AI Service] OpenRouter failed: ${getErrorMessage(error)}. Fallback to Gemini.`);
+      errors.push(`${provider.name}: ${getErrorMessage(error)}`);
+      console.warn(`[AI Service] ${provider.name} failed (Chat): ${getErrorMessage(error)}`);
     }
   }
 
-  // 2. Fallback to Gemini
-  console.log('[AI Service] Attempting analysis with Gemini');
-  notifyProviderSelection('Gemini (Fallback)');
-
-  try {
-    return await withRetry(
-      () => geminiProvider.analyze(processes, prompt),
-      {
-        maxRetries: 3,
-        onRetry: (attempt) => notifyRetry('Gemini', attempt, 3)
-      }
-    );
-  } catch (geminiError) {
-     const combinedError = new Error(
-      `Both AI providers failed. OpenRouter: ${openRouterError ? getErrorMessage(openRouterError) : 'Skipped/Not Configured'}. Gemini: ${getErrorMessage(geminiError)}`
-    );
-    throw combinedError;
-  }
+  throw new Error(`All AI providers failed. ${errors.join('. ')}`);
 }
 
 /**
- * Helper to save multiple analysis results
+ * Analyze a batch of processes in a single API call with automatic retry
+ * @param processes Array of process info to analyze
+ * @returns Promise that resolves when batch analysis is complete
  */
-function saveBatchAnalysis(results: AnalysisResult[]) {
-  results.forEach(result => {
-    try {
-      saveAnalysis(result);
-    } catch (error) {
-      console.error(`[AI Service] Failed to save analysis for ${result.process_name}:`, error);
-    }
-  });
-}
-
-// --- logging helpers ---
-
-function logToUI(type: 'info' | 'error', message: string) {
-  if (webContents && !webContents.isDestroyed()) {
-    webContents.send('batch-analysis-log', { type, message });
-  }
-}
-
-function notifyProviderSelection(provider: string) {
-  if (webContents && !webContents.isDestroyed()) {
-    webContents.send('ai-provider-selected', { provider });
-  }
-}
-
-function notifyRetry(provider: string, attempt: number, maxRetries: number) {
-  console.log(`[AI Service] ${provider} retry attempt ${attempt}/${maxRetries}...`);
-  if (webContents && !webContents.isDestroyed()) {
-    webContents.send('batch-analysis-retry', { provider, attempt, maxRetries });
-  }
-}
-
-export function isAnalyzing(): boolean {
-  return isProcessing;
+export async function analyzeProcessesBatch(processes: ProcessInfo[]): Promise<AnalysisResult[]> {
+  return runAnalysisBatch(processAnalysisTask, processes, saveAnalysis);
 }
 
-// Re-export buildOptimizedPrompt if it was consumed externally
-export { buildOptimizedPrompt };
-
-// ===== DEV MODE ANALYSIS =====
-
 /**
  * Analyze processes in Dev Mode for advanced memory profiling
  * Uses dual-metric analysis (PWS + WS) to detect leaks and inefficiencies
  */
 export async function analyzeDevModeBatch(processes: ProcessInfo[]): Promise<DevModeAnalysisResult[]> {
-  if (!geminiProvider.isInitialized()) {
-    throw new Error('Gemini API not initialized. Please set API key first.');
+  return runAnalysisBatch(devModeAnalysisTask, processes, saveDevModeAnalysis);
+}
+
+/**
+ * Deduplicate, batch and analyze processes for one task, saving each batch as it completes
+ */
+async function runAnalysisBatch<T extends { process_name: string; identity?: string; exe_path?: string | null; template_version?: string | null }>(
+  task: AnalysisTask<T>,
+  processes: ProcessInfo[],
+  save: (result: T) => void
+): Promise<T[]> {
+  const prefix = task.label ? `[${task.label}] ` : '';
+
+  if (!hasReadyProvider()) {
+    throw new Error('No AI provider ready. Enable a provider with an API key or a local endpoint in Settings.');
   }
 
   if (isProcessing) {
     throw new Error('Batch analysis already in progress');
   }
 
+  assertWithinBudget();
+
   if (processes.length === 0) {
     return [];
   }
 
-  // Deduplicate processes by name
+  // Deduplicate processes by name + executable identity to reduce token usage
   const uniqueProcesses = deduplicateProcesses(processes);
   const duplicateInstances = processes.length - uniqueProcesses.length;
   
   if (duplicateInstances > 0) {
-    const message = `[Dev Mode] Deduplication: ${processes.length} → ${uniqueProcesses.length} unique processes`;
+    const message = `${prefix}Deduplication: ${processes.length} unanalyzed process instances → ${uniqueProcesses.length} unique executables (removed ${duplicateInstances} duplicate instances)`;
     console.log(`[AI Service] ${message}`);
     logToUI('info', message);
+  } else {
+    console.log(`[AI Service] ${prefix}All ${uniqueProcesses.length} unanalyzed processes are unique, no deduplication needed`);
   }
 
   if (uniqueProcesses.length === 0) {
@@ -242,43 +275,103 @@ export async function analyzeDevModeBatch(processes: ProcessInfo[]): Promise<Dev
   }
 
   isProcessing = true;
+  const run = new AbortController();
+  activeRun = run;
+  const { signal } = run;
+  let savedCount = 0;
+  // Captured once so a template edited mid-run doesn't mix versions within the run
+  const templateVersion = task.templateVersion();
 
   try {
-    const chunks = createProcessBatches(uniqueProcesses);
-    
-    if (chunks.length > 1) {
-      const message = `[Dev Mode] Split ${uniqueProcesses.length} processes into ${chunks.length} batches`;
-      console.log(`[AI Service] ${message}`);
-      logToUI('info', message);
-    }
+    const coverage = new Map<ProcessInfo, ProcessCoverage>(
+      uniqueProcesses.map(p => [p, { name: p.name, identity: p.identity ?? '', analyzed: false, attempts: 0 }])
+    );
+    const allResults: T[] = [];
+    let pending = uniqueProcesses;
 
-    const allResults: DevModeAnalysisResult[] = [];
+    for (let round = 0; round <= MAX_FOLLOW_UP_ROUNDS && pending.length > 0; round++) {
+      signal.throwIfAborted();
+      const followUp = round > 0 ? ` (follow-up ${round}/${MAX_FOLLOW_UP_ROUNDS})` : '';
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const message = `[Dev Mode] Processing batch ${i + 1}/${chunks.length} (${chunk.length} processes)...`;
-      console.log(`[AI Service] ${message}`);
-      logToUI('info', message);
+      // Pack batches to the token budget of the configured models
+      const budget = getBatchBudget();
+      const chunks = createProcessBatches(pending, task, budget);
       
-      if (webContents && !webContents.isDestroyed()) {
-        webContents.send('batch-analysis-progress', {
-          currentBatch: i + 1,
-          totalBatches: chunks.length,
-          processesInBatch: chunk.length
-        });
+      if (round > 0) {
+        const message = `${prefix}Re-queueing ${pending.length} process${pending.length === 1 ? '' : 'es'} missing from the responses${followUp}`;
+        console.log(`[AI Service] ${message}`);
+        logToUI('info', message);
+      } else if (chunks.length > 1) {
+        const message = `${prefix}Split ${pending.length} processes into ${chunks.length} batches to fit a ${budget.contextTokens}-token context / ${budget.maxOutputTokens}-token output budget`;
+        console.log(`[AI Service] ${message}`);
+        logToUI('info', message);
       }
 
-      const results = await analyzeDevModeChunk(chunk);
-      allResults.push(...results);
-      
-      // Save results immediately
-      saveDevModeBatchAnalysis(results);
-      console.log(`[AI Service] Saved ${results.length} Dev Mode analysis results to database`);
+      const missing: ProcessInfo[] = [];
+      let inFlight = 0;
+      let completedBatches = 0;
+
+      // Batches start in order, a few at a time; each provider's rate limiter paces the requests
+      await runWithConcurrency(chunks, MAX_CONCURRENT_BATCHES, async (chunk, i) => {
+        signal.throwIfAborted();
+        inFlight++;
+        const message = `${prefix}Processing batch ${i + 1}/${chunks.length}${followUp} (${chunk.length} processes, ${inFlight} in flight)...`;
+        console.log(`[AI Service] ${message}`);
+        logToUI('info', message);
+        
+        // Notify UI of batch progress (sent on start, so batch numbers always increase)
+        if (webContents && !webContents.isDestroyed()) {
+          webContents.send('batch-analysis-progress', {
+            currentBatch: i + 1,
+            totalBatches: chunks.length,
+            processesInBatch: chunk.length,
+            inFlight,
+            completedBatches
+          });
+        }
+
+        let analyzed: T[];
+        try {
+          analyzed = await analyzeChunkSplitting(task, chunk, signal);
+        } finally {
+          inFlight--;
+        }
+        completedBatches++;
+
+        const { matched, unknown, missing: gaps } = reconcileResults(analyzed, chunk);
+        for (const p of chunk) {
+          const entry = coverage.get(p);
+          if (!entry) continue;
+          entry.attempts++;
+          entry.analyzed = !gaps.includes(p);
+        }
+        matched.forEach(result => { result.template_version = templateVersion; });
+        allResults.push(...matched);
+        missing.push(...gaps);
+
+        if (unknown.length > 0) {
+          const names = unknown.map(r => JSON.stringify(r.process_name)).join(', ');
+          console.warn(`[AI Service] ${prefix}Discarded ${unknown.length} result(s) for processes not in the batch: ${names}`);
+          logToUI('invalid', `${prefix}Discarded ${unknown.length} result${unknown.length === 1 ? '' : 's'} for processes not in the batch: ${names}`);
+        }
+        
+        // Save results immediately after processing the chunk
+        saveResults(matched, save);
+        savedCount += matched.length;
+        console.log(`[AI Service] ${prefix}Saved ${matched.length} analysis results to database${gaps.length > 0 ? `, ${gaps.length} missing from the response` : ''}`);
+      });
+
+      pending = missing;
     }
 
+    const report = Array.from(coverage.values());
+    reportCoverage(report, task.label);
+
+    // Notify UI of completion
     if (webContents && !webContents.isDestroyed()) {
       webContents.send('batch-analysis-complete', {
         count: allResults.length,
+        coverage: report,
         timestamp: new Date().toISOString()
       });
     }
@@ -286,122 +379,291 @@ export async function analyzeDevModeBatch(processes: ProcessInfo[]): Promise<Dev
     return allResults;
 
   } catch (error) {
-    console.error('[AI Service] Dev Mode batch analysis failed:', error);
+    if (signal.aborted) {
+      // Finished batches are already in the database, only the unfinished ones are dropped
+      const message = `${prefix}Analysis cancelled, kept ${savedCount} results from finished batches`;
+      console.log(`[AI Service] ${message}`);
+      logToUI('info', message);
+      if (webContents && !webContents.isDestroyed()) {
+        webContents.send('batch-analysis-cancelled', { count: savedCount, timestamp: new Date().toISOString() });
+      }
+      throw new Error(ANALYSIS_CANCELLED);
+    }
+    console.error(`[AI Service] ${prefix}Batch analysis failed:`, error);
     throw error;
   } finally {
     isProcessing = false;
+    activeRun = null;
   }
 }
 
 /**
- * Analyze a single chunk in Dev Mode with provider fallback
+ * Analyze a chunk, halving it for as long as the providers say it is too long
+ * Budgets are estimates, so this is the backstop for models that tokenize worse than expected
  */
-async function analyzeDevModeChunk(processes: ProcessInfo[]): Promise<DevModeAnalysisResult[]> {
-  const prompt = buildDevModePrompt(processes);
-  let openRouterError: any = null;
+async function analyzeChunkSplitting<T extends { process_name: string }>(
+  task: AnalysisTask<T>,
+  processes: ProcessInfo[],
+  signal: AbortSignal
+): Promise<T[]> {
+  try {
+    return await analyzeChunk(task, processes, signal);
+  } catch (error) {
+    if (processes.length < 2 || signal.aborted || !isContextLengthError(error)) throw error;
 
-  // Try OpenRouter first
-  if (openRouterProvider.isInitialized()) {
-    console.log('[AI Service] [Dev Mode] Attempting analysis with OpenRouter');
-    notifyProviderSelection('OpenRouter (Dev Mode)');
+    const [first, second] = splitBatch(processes);
+    const message = `${task.label ? `[${task.label}] ` : ''}Batch of ${processes.length} processes was too long for the model, splitting into ${first.length} + ${second.length}`;
+    console.warn(`[AI Service] ${message}`);
+    logToUI('info', message);
+
+    return [...await analyzeChunkSplitting(task, first, signal), ...await analyzeChunkSplitting(task, second, signal)];
+  }
+}
+
+/**
+ * Analyze a single chunk of processes with provider fallback and retry logic
+ */
+async function analyzeChunk<T extends { process_name: string }>(
+  task: AnalysisTask<T>,
+  processes: ProcessInfo[],
+  signal: AbortSignal
+): Promise<T[]> {
+  const prompt = task.buildPrompt(processes);
+  const outputTokens = processes.length * task.outputTokensPerProcess;
+  const mode = task.label ? ` (${task.label})` : '';
+  const errors: string[] = [];
+
+  for (const [index, { provider, entry }] of getProviderChain().entries()) {
+    const primary = index === 0;
+    console.log(`[AI Service] Attempting analysis${mode} with ${provider.name}${primary ? ' (primary)' : ''}`);
+    notifyProviderSelection(primary ? `${provider.name}${mode}` : `${provider.name} (${task.label ? `${task.label} ` : ''}Fallback)`);
 
     try {
-      return await withRetry(
-        () => analyzeDevModeWithProvider(openRouterProvider, prompt),
+      let attempt = 0;
+      const parsed = await withRetry(
+        () => completeTask(provider, entry, task, prompt, outputTokens, attempt++, signal),
         {
           maxRetries: 3,
-          onRetry: (attempt) => notifyRetry('OpenRouter', attempt, 3)
+          signal,
+          onRetry: (attempt, error) => {
+            // Hold back every batch headed for this provider, not just this one
+            if (isRateLimitError(error)) {
+              rateLimiters[entry.id].pause(getRetryAfterMs(error) ?? DEFAULT_RATE_LIMIT_PAUSE_MS);
+            }
+            notifyRetry(provider.name, attempt, 3);
+          }
         }
       );
+      reportInvalidRows(provider.name, parsed.invalid, task.label);
+      return parsed.results;
     } catch (error) {
-      openRouterError = error;
-      console.warn(`[AI Service] [Dev Mode] OpenRouter failed: ${getErrorMessage(error)}. Fallback to Gemini.`);
+      // Cancelled, not failed: don't fall back to the next provider
+      if (signal.aborted) throw error;
+      errors.push(`${provider.name}: ${getErrorMessage(error)}`);
+      console.warn(`[AI Service] ${provider.name} failed${mode}: ${getErrorMessage(error)}`);
     }
   }
 
-  // Fallback to Gemini
-  console.log('[AI Service] [Dev Mode] Attempting analysis with Gemini');
-  notifyProviderSelection('Gemini (Dev Mode Fallback)');
-
-  try {
-    return await withRetry(
-      () => analyzeDevModeWithProvider(geminiProvider, prompt),
-      {
-        maxRetries: 3,
-        onRetry: (attempt) => notifyRetry('Gemini', attempt, 3)
-      }
-    );
-  } catch (geminiError) {
-    const combinedError = new Error(
-      `Both AI providers failed in Dev Mode. OpenRouter: ${openRouterError ? getErrorMessage(openRouterError) : 'Skipped'}. Gemini: ${getErrorMessage(geminiError)}`
-    );
-    throw combinedError;
-  }
+  throw new Error(`All AI providers failed${task.label ? ` in ${task.label}` : ''}. ${errors.join('. ')}`);
 }
 
 /**
- * Generic Dev Mode analysis with any provider
+ * One provider round-trip: raw completion, then the task's own parser
+ * A response that is malformed or has rows failing validation gets a single repair
+ * follow-up listing the errors; rows still invalid after that are returned for reporting
  */
-async function analyzeDevModeWithProvider(provider: any, prompt: string): Promise<DevModeAnalysisResult[]> {
-  const model = provider.genAI ? provider.genAI.getGenerativeModel({ model: provider.modelName || 'gemini-2.5-flash' }) : null;
-  
-  if (!model) {
-    // OpenRouter path - use getRawCompletion for Dev Mode (different JSON format)
-    const text = await provider.getRawCompletion(prompt);
-    return parseDevModeResponse(text);
+async function completeTask<T extends { process_name: string }>(
+  provider: AIProvider,
+  entry: ProviderChainEntry,
+  task: AnalysisTask<T>,
+  prompt: string,
+  outputTokens: number,
+  retries: number,
+  signal: AbortSignal
+): Promise<ParsedResults<T>> {
+  const mode = task.label ?? 'Standard';
+  const request = { ...promptRequest(prompt, entry.model, entry.params), signal };
+  const response = await limitedComplete(provider, entry, request, outputTokens, { mode, purpose: 'analysis', retries });
+  if (response.truncated) {
+    // A cut-off array can't be repaired, the batch has to shrink
+    throw new Error(`${provider.name} response truncated at the output token limit`);
   }
-  
-  // Gemini path
-  const result = await model.generateContent(prompt);
-  const response = await result.response;
-  const text = response.text();
-  return parseDevModeResponse(text);
+
+  let parsed: ParsedResults<T> | null = null;
+  let problems: string[];
+  try {
+    parsed = task.parse(response.text);
+    problems = parsed.invalid.map(describeInvalidRow);
+  } catch (error) {
+    problems = [getErrorMessage(error)];
+  }
+
+  if (parsed && problems.length === 0) {
+    return parsed;
+  }
+
+  const message = `${task.label ? `[${task.label}] ` : ''}${provider.name} response failed validation (${problems.length} problem${problems.length === 1 ? '' : 's'}), requesting a corrected response`;
+  console.warn(`[AI Service] ${message}:`, problems);
+  logToUI('info', message);
+
+  const repairRequest: CompletionRequest = {
+    messages: [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: response.text },
+      { role: 'user', content: buildRepairPrompt(problems) }
+    ],
+    model: entry.model,
+    params: entry.params,
+    signal
+  };
+
+  try {
+    const repaired = task.parse((await limitedComplete(provider, entry, repairRequest, outputTokens, { mode, purpose: 'repair', retries })).text);
+    // The repair is a full answer, keep it unless it came back worse than the original
+    if (!parsed || repaired.results.length >= parsed.results.length) {
+      return repaired;
+    }
+  } catch (error) {
+    console.warn(`[AI Service] ${provider.name} repair failed: ${getErrorMessage(error)}`);
+    // Nothing usable at all, let the retry middleware start over
+    if (!parsed || signal.aborted) throw error;
+  }
+
+  return parsed;
 }
 
 /**
- * Parse Dev Mode JSON response
+ * Send a request once the provider's rate limiter lets it through, and record it in the usage ledger
+ * Token counts come from the provider's usage fields, or are estimated when it reports none
  */
-function parseDevModeResponse(text: string): DevModeAnalysisResult[] {
-  let jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-  
-  const arrayStart = jsonStr.indexOf('[');
-  const arrayEnd = jsonStr.lastIndexOf(']');
-  
-  if (arrayStart === -1 || arrayEnd === -1 || arrayStart >= arrayEnd) {
-    throw new Error('No valid JSON array found in Dev Mode response');
-  }
-  
-  jsonStr = jsonStr.substring(arrayStart, arrayEnd + 1);
-  
+async function limitedComplete(
+  provider: AIProvider,
+  entry: ProviderChainEntry,
+  request: CompletionRequest,
+  outputTokens: number,
+  call: CallInfo
+): Promise<CompletionResponse> {
+  const promptTokens = estimateTokens(request.messages.map(m => m.content).join('\n'));
+  const release = await rateLimiters[entry.id].acquire(promptTokens + outputTokens, request.signal);
+  const startedAt = Date.now();
+
   try {
-    const data = JSON.parse(jsonStr) as Array<{
-      n: string;
-      type: 'Leak' | 'Inefficient' | 'Normal' | 'Suspicious';
-      analysis: string;
-      recommendation: string;
-    }>;
-
-    return data.map(item => ({
-      process_name: item.n,
-      type: item.type,
-      analysis: item.analysis,
-      recommendation: item.recommendation
-    }));
-  } catch (e) {
-    console.error('Failed to parse Dev Mode response:', jsonStr);
-    throw new Error('Failed to parse JSON response from Dev Mode analysis');
+    const response = await provider.complete(request);
+    recordProviderCall({
+      ...call,
+      provider: entry.id,
+      model: response.model,
+      promptTokens: response.usage?.promptTokens ?? promptTokens,
+      completionTokens: response.usage?.completionTokens ?? estimateTokens(response.text),
+      tokensEstimated: !response.usage,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'success'
+    });
+    return response;
+  } catch (error) {
+    recordProviderCall({
+      ...call,
+      provider: entry.id,
+      model: request.model || entry.model,
+      promptTokens,
+      completionTokens: 0,
+      tokensEstimated: true,
+      latencyMs: Date.now() - startedAt,
+      outcome: request.signal?.aborted ? 'cancelled' : 'error',
+      error: getErrorMessage(error)
+    });
+    throw error;
+  } finally {
+    release();
+  }
+}
+
+function assertWithinBudget() {
+  const budget = getBudgetStatus();
+  if (budget.exceeded) {
+    throw new Error(`Monthly AI budget of $${budget.budgetUsd.toFixed(2)} reached ($${budget.spentUsd.toFixed(2)} spent this month). Raise it in Settings to make new AI requests.`);
   }
 }
 
 /**
- * Save Dev Mode batch results
+ * Helper to save multiple analysis results
  */
-function saveDevModeBatchAnalysis(results: DevModeAnalysisResult[]) {
+function saveResults<T extends { process_name: string }>(results: T[], save: (result: T) => void) {
   results.forEach(result => {
     try {
-      saveDevModeAnalysis(result);
+      save(result);
     } catch (error) {
-      console.error(`[AI Service] Failed to save Dev Mode analysis for ${result.process_name}:`, error);
+      console.error(`[AI Service] Failed to save analysis for ${result.process_name}:`, error);
+      logToUI('error', `Failed to save analysis for ${result.process_name}: ${getErrorMessage(error)}`);
     }
   });
 }
+
+// --- logging helpers ---
+
+/**
+ * Rows that failed validation are not saved, so the processes stay unanalyzed
+ * and are picked up again by the next run
+ */
+function reportInvalidRows(provider: string, rows: InvalidRow[], label?: string) {
+  const prefix = label ? `[${label}] ` : '';
+  for (const row of rows) {
+    console.warn(`[AI Service] ${prefix}Invalid row from ${provider}: ${describeInvalidRow(row)} ${row.raw}`);
+    logToUI('invalid', `${prefix}${provider} · ${describeInvalidRow(row)} · ${row.raw}`);
+  }
+}
+
+/**
+ * Final per-process outcome of a run: how many made it, which needed follow-ups,
+ * and which are still unanalyzed after the retry cap
+ */
+function reportCoverage(coverage: ProcessCoverage[], label?: string) {
+  const prefix = label ? `[${label}] ` : '';
+  const analyzed = coverage.filter(c => c.analyzed);
+  const retried = analyzed.filter(c => c.attempts > 1);
+  const uncovered = coverage.filter(c => !c.analyzed);
+
+  const message = `${prefix}Coverage: ${analyzed.length}/${coverage.length} processes analyzed${retried.length > 0 ? `, ${retried.length} after a follow-up batch` : ''}`;
+  console.log(`[AI Service] ${message}`);
+  logToUI(uncovered.length > 0 ? 'error' : 'info', message);
+
+  for (const c of uncovered) {
+    console.warn(`[AI Service] ${prefix}Not analyzed: ${c.name} (sent ${c.attempts}x)`);
+    logToUI('error', `${prefix}Not analyzed: ${c.name}, missing from ${c.attempts} response${c.attempts === 1 ? '' : 's'}`);
+  }
+}
+
+function logToUI(type: 'info' | 'error' | 'invalid', message: string) {
+  if (webContents && !webContents.isDestroyed()) {
+    webContents.send('batch-analysis-log', { type, message });
+  }
+}
+
+function notifyProviderSelection(provider: string) {
+  if (webContents && !webContents.isDestroyed()) {
+    webContents.send('ai-provider-selected', { provider });
+  }
+}
+
+function notifyRetry(provider: string, attempt: number, maxRetries: number) {
+  console.log(`[AI Service] ${provider} retry attempt ${attempt}/${maxRetries}...`);
+  if (webContents && !webContents.isDestroyed()) {
+    webContents.send('batch-analysis-retry', { provider, attempt, maxRetries });
+  }
+}
+
+/**
+ * Stop the running analysis: in-flight requests are aborted and no new batch starts
+ * Batches that already finished stay saved
+ * @returns false when nothing was running
+ */
+export function cancelAnalysis(): boolean {
+  if (!activeRun || activeRun.signal.aborted) return false;
+  console.log('[AI Service] Cancelling analysis run');
+  activeRun.abort(new Error(ANALYSIS_CANCELLED));
+  return true;
+}
+
+export function isAnalyzing(): boolean {
+  return isProcessing;
+}
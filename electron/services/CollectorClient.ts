@@ -0,0 +1,167 @@
+import { Worker } from 'node:worker_threads';
+import type {
+  CollectOptions,
+  CollectResult,
+  CollectorRequest,
+  CollectorResponse,
+  CollectorWorkerData,
+  EnrichedProcess
+} from './ProcessCollector.js';
+import type { ProcessConnection } from './NetworkCollector.js';
+import type { ProcessSnapshotMessage } from '../utils/processDelta.js';
+import type { HistoryRetentionConfig } from './HistoryService.js';
+import type { AnalysisTtlConfig } from '../utils/analysisExpiry.js';
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-process side of the collector worker.
+ * Wraps the message protocol in promises and restarts the worker if it dies.
+ */
+export class CollectorClient {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private isRestarting = false;
+  private stopped = false;
+
+  constructor(private workerPath: string, private workerData: CollectorWorkerData) {
+    this.init();
+  }
+
+  private init(): void {
+    console.log('[CollectorClient] Starting collector worker...');
+
+    const worker = new Worker(this.workerPath, { workerData: this.workerData });
+
+    worker.on('message', (response: CollectorResponse) => {
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      this.pending.delete(response.id);
+
+      if (response.ok) {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    });
+
+    worker.on('error', (error) => {
+      console.error('[CollectorClient] Worker error:', error);
+    });
+
+    worker.on('exit', (code) => {
+      if (this.worker === worker) {
+        this.worker = null;
+      }
+      this.rejectPending(new Error(`Collector worker exited with code ${code}`));
+
+      if (!this.stopped) {
+        console.warn(`[CollectorClient] Collector worker exited with code ${code}`);
+        this.restart();
+      }
+    });
+
+    this.worker = worker;
+  }
+
+  /**
+   * Restart the worker after a delay
+   */
+  private restart(): void {
+    if (this.isRestarting) return;
+
+    this.isRestarting = true;
+    console.log('[CollectorClient] Restarting collector worker in 2 seconds...');
+
+    setTimeout(() => {
+      this.isRestarting = false;
+      if (!this.stopped) this.init();
+    }, 2000);
+  }
+
+  private request<T>(message: DistributiveOmit<CollectorRequest, 'id'>): Promise<T> {
+    if (!this.worker) {
+      return Promise.reject(new Error('Collector worker is not running'));
+    }
+
+    const id = this.nextId++;
+    const worker = this.worker;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: result => resolve(result as T), reject });
+      worker.postMessage({ ...message, id });
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Run one collection tick in the worker
+   */
+  collect(options: CollectOptions): Promise<CollectResult> {
+    return this.request<CollectResult>({ type: 'collect', options });
+  }
+
+  /**
+   * Full process state at the current sequence number
+   */
+  snapshot(): Promise<ProcessSnapshotMessage<EnrichedProcess>> {
+    return this.request<ProcessSnapshotMessage<EnrichedProcess>>({ type: 'snapshot' });
+  }
+
+  /**
+   * Processes from the last completed tick
+   */
+  latest(): Promise<EnrichedProcess[]> {
+    return this.request<EnrichedProcess[]>({ type: 'latest' });
+  }
+
+  /**
+   * Sockets owned by a process as of the worker's last network refresh
+   */
+  connections(pid: number): Promise<ProcessConnection[]> {
+    return this.request<ProcessConnection[]>({ type: 'connections', pid });
+  }
+
+  configureHistory(config: Partial<HistoryRetentionConfig>): Promise<boolean> {
+    this.workerData = { ...this.workerData, historyRetention: config };
+    return this.request<boolean>({ type: 'configure-history', config });
+  }
+
+  configureAnalysisTtl(ttl: AnalysisTtlConfig): Promise<boolean> {
+    this.workerData = { ...this.workerData, analysisTtl: ttl };
+    return this.request<boolean>({ type: 'configure-analysis-ttl', ttl });
+  }
+
+  /**
+   * Let the worker release its providers and DB handle, then terminate it
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    const worker = this.worker;
+    if (!worker) return;
+
+    try {
+      await Promise.race([
+        this.request<boolean>({ type: 'shutdown' }),
+        new Promise(resolve => setTimeout(resolve, 2000))
+      ]);
+    } catch (error) {
+      console.error('[CollectorClient] Shutdown failed:', error);
+    }
+
+    await worker.terminate();
+  }
+}
@@ -1,73 +1,414 @@
 import Database from 'better-sqlite3';
-import path from 'path';
-import { app } from 'electron';
 
-const dbPath = path.join(app.getPath('userData'), 'chunkchop.db');
 let db: Database.Database;
 
-export function initDB() {
+/**
+ * Open (and migrate) the database
+ * Takes the path from the caller so the collector worker, which has no access
+ * to Electron's app module, can open its own connection to the same file
+ */
+export function initDB(dbPath: string) {
   db = new Database(dbPath);
   db.pragma('journal_mode = WAL');
 
   db.exec(`
-    CREATE TABLE IF NOT EXISTS process_analysis (
-      process_name TEXT PRIMARY KEY,
-      risk_level TEXT CHECK( risk_level IN ('SystemCritical', 'Safe', 'Bloat', 'Unknown', 'Critical') ),
-      description TEXT,
-      recommendation TEXT,
-      last_updated DATETIME DEFAULT CURRENT_TIMESTAMP
+    CREATE TABLE IF NOT EXISTS process_samples (
+      ts INTEGER NOT NULL,
+      resolution INTEGER NOT NULL DEFAULT 0,
+      pid INTEGER NOT NULL,
+      process_name TEXT NOT NULL,
+      cpu REAL,
+      mem_rss INTEGER,
+      private_mem INTEGER,
+      mem_virtual INTEGER
     );
 
-    CREATE TABLE IF NOT EXISTS devmode_analysis (
-      process_name TEXT PRIMARY KEY,
-      type TEXT CHECK( type IN ('Leak', 'Inefficient', 'Normal', 'Suspicious') ),
-      analysis TEXT,
-      recommendation TEXT,
-      last_updated DATETIME DEFAULT CURRENT_TIMESTAMP
+    CREATE INDEX IF NOT EXISTS idx_process_samples_pid_ts ON process_samples (pid, ts);
+    CREATE INDEX IF NOT EXISTS idx_process_samples_name_ts ON process_samples (process_name, ts);
+    CREATE INDEX IF NOT EXISTS idx_process_samples_resolution_ts ON process_samples (resolution, ts);
+  `);
+
+  // Columns added after the first release of process_samples
+  addColumnIfMissing('process_samples', 'handles', 'INTEGER');
+  addColumnIfMissing('process_samples', 'threads', 'INTEGER');
+
+  // Analysis caches are keyed on process name + executable identity (see ExecutableIdentityService);
+  // rows from before that keep identity '' and only apply to processes whose executable is unknown
+  createAnalysisTable('process_analysis', `
+    risk_level TEXT CHECK( risk_level IN ('SystemCritical', 'Safe', 'Bloat', 'Unknown', 'Critical') ),
+    description TEXT,
+    recommendation TEXT`);
+  createAnalysisTable('devmode_analysis', `
+    type TEXT CHECK( type IN ('Leak', 'Inefficient', 'Normal', 'Suspicious') ),
+    analysis TEXT,
+    recommendation TEXT`);
+
+  // Prompt template the cached verdict was produced with (see PromptTemplateService); NULL before templates existed
+  addColumnIfMissing('process_analysis', 'template_version', 'TEXT');
+  addColumnIfMissing('devmode_analysis', 'template_version', 'TEXT');
+
+  // One row per provider call, for cost accounting (see UsageService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      purpose TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      tokens_estimated INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL,
+      outcome TEXT CHECK( outcome IN ('success', 'error', 'cancelled') ),
+      retries INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_ts ON llm_usage (ts);
+  `);
+
+  // "Ask about this process" transcripts, keyed like the analysis caches (see ProcessChatService)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS process_chat_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      process_name TEXT NOT NULL,
+      identity TEXT NOT NULL DEFAULT '',
+      ts INTEGER NOT NULL,
+      role TEXT CHECK( role IN ('user', 'assistant') ),
+      content TEXT NOT NULL,
+      provider TEXT,
+      model TEXT
     );
+
+    CREATE INDEX IF NOT EXISTS idx_process_chat_messages_process ON process_chat_messages (process_name, identity, id);
   `);
+
   console.log('Database initialized at:', dbPath);
 }
 
+export function closeDB() {
+  db?.close();
+}
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`[Database] Added ${table}.${column}`);
+  }
+}
+
+/**
+ * Create an analysis cache table, rebuilding name-keyed tables from older versions
+ * SQLite can't change a primary key in place, so the old rows are copied over with identity ''
+ */
+function createAnalysisTable(table: string, resultColumns: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  const legacy = columns.length > 0 && !columns.some(c => c.name === 'identity');
+
+  const rebuild = db.transaction(() => {
+    if (legacy) db.exec(`ALTER TABLE ${table} RENAME TO ${table}_legacy`);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        process_name TEXT NOT NULL,
+        identity TEXT NOT NULL DEFAULT '',
+        exe_path TEXT,
+        ${resultColumns.trim()},
+        last_updated DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (process_name, identity)
+      );
+    `);
+
+    if (legacy) {
+      const copied = columns.map(c => c.name).join(', ');
+      db.exec(`INSERT INTO ${table} (${copied}) SELECT ${copied} FROM ${table}_legacy`);
+      db.exec(`DROP TABLE ${table}_legacy`);
+      console.log(`[Database] Re-keyed ${table} on executable identity`);
+    }
+  });
+  rebuild();
+}
+
 export interface AnalysisResult {
   process_name: string;
+  identity?: string; // sha256:<hex>, path:<path> or '' when the executable is unknown
+  exe_path?: string | null;
   risk_level: 'SystemCritical' | 'Safe' | 'Bloat' | 'Unknown' | 'Critical';
   description: string;
   recommendation: string;
+  template_version?: string | null;
   last_updated?: string;
+  // Set when a local rule finding overrides the AI (never persisted)
+  source?: 'rules';
+  ai_risk_level?: AnalysisResult['risk_level'];
+  // Set by the collector once the verdict is older than its risk level's TTL (never persisted)
+  stale?: boolean;
 }
 
-export function getAnalysis(processName: string): AnalysisResult | undefined {
-  const stmt = db.prepare('SELECT * FROM process_analysis WHERE process_name = ?');
-  return stmt.get(processName) as AnalysisResult | undefined;
+/**
+ * Exact match on identity: a binary with a known identity never inherits a verdict
+ * cached for a different executable that happens to share its name
+ */
+export function getAnalysis(processName: string, identity: string = ''): AnalysisResult | undefined {
+  const stmt = db.prepare('SELECT * FROM process_analysis WHERE process_name = ? AND identity = ?');
+  return stmt.get(processName, identity) as AnalysisResult | undefined;
 }
 
 export function saveAnalysis(data: AnalysisResult) {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO process_analysis (process_name, risk_level, description, recommendation, last_updated)
-    VALUES (@process_name, @risk_level, @description, @recommendation, CURRENT_TIMESTAMP)
+    INSERT OR REPLACE INTO process_analysis (process_name, identity, exe_path, risk_level, description, recommendation, template_version, last_updated)
+    VALUES (@process_name, @identity, @exe_path, @risk_level, @description, @recommendation, @template_version, CURRENT_TIMESTAMP)
   `);
-  stmt.run(data);
+  stmt.run({ ...data, identity: data.identity ?? '', exe_path: data.exe_path ?? null, template_version: data.template_version ?? null });
 }
 
 // Dev Mode Analysis Types
 export interface DevModeAnalysisResult {
   process_name: string;
+  identity?: string;
+  exe_path?: string | null;
   type: 'Leak' | 'Inefficient' | 'Normal' | 'Suspicious';
   analysis: string;
   recommendation: string;
+  template_version?: string | null;
   last_updated?: string;
+  // Set when the local leak detector overrides or confirms the AI (never persisted)
+  source?: 'detector' | 'ai+detector';
+  ai_type?: DevModeAnalysisResult['type'];
 }
 
-export function getDevModeAnalysis(processName: string): DevModeAnalysisResult | undefined {
-  const stmt = db.prepare('SELECT * FROM devmode_analysis WHERE process_name = ?');
-  return stmt.get(processName) as DevModeAnalysisResult | undefined;
+export function getDevModeAnalysis(processName: string, identity: string = ''): DevModeAnalysisResult | undefined {
+  const stmt = db.prepare('SELECT * FROM devmode_analysis WHERE process_name = ? AND identity = ?');
+  return stmt.get(processName, identity) as DevModeAnalysisResult | undefined;
 }
 
 export function saveDevModeAnalysis(data: DevModeAnalysisResult) {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO devmode_analysis (process_name, type, analysis, recommendation, last_updated)
-    VALUES (@process_name, @type, @analysis, @recommendation, CURRENT_TIMESTAMP)
+    INSERT OR REPLACE INTO devmode_analysis (process_name, identity, exe_path, type, analysis, recommendation, template_version, last_updated)
+    VALUES (@process_name, @identity, @exe_path, @type, @analysis, @recommendation, @template_version, CURRENT_TIMESTAMP)
   `);
-  stmt.run(data);
+  stmt.run({ ...data, identity: data.identity ?? '', exe_path: data.exe_path ?? null, template_version: data.template_version ?? null });
+}
+
+/**
+ * Cached analyses produced with a different prompt template than `version` (including ones from before templates)
+ */
+export function countOutdatedAnalyses(table: 'process_analysis' | 'devmode_analysis', version: string): number {
+  const row = db.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE template_version IS NOT ?`).get(version) as { count: number };
+  return row.count;
+}
+
+// Process History Types
+// ts is epoch milliseconds (bucket start for downsampled rows),
+// resolution is 0 for raw samples or the bucket size in seconds,
+// memory columns are in bytes.
+export interface ProcessSample {
+  ts: number;
+  resolution: number;
+  pid: number;
+  process_name: string;
+  cpu: number;
+  mem_rss: number;
+  private_mem: number | null;
+  mem_virtual: number;
+  handles: number | null; // Open handles (Windows) / file descriptors (Linux)
+  threads: number | null;
+}
+
+export interface ProcessSeriesQuery {
+  pid?: number;
+  processName?: string;
+  from: number;
+  to: number;
+}
+
+export function saveProcessSamples(samples: ProcessSample[]) {
+  const stmt = db.prepare(`
+    INSERT INTO process_samples (ts, resolution, pid, process_name, cpu, mem_rss, private_mem, mem_virtual, handles, threads)
+    VALUES (@ts, @resolution, @pid, @process_name, @cpu, @mem_rss, @private_mem, @mem_virtual, @handles, @threads)
+  `);
+  const insertAll = db.transaction((rows: ProcessSample[]) => {
+    for (const row of rows) stmt.run(row);
+  });
+  insertAll(samples);
+}
+
+/**
+ * Average samples of one resolution older than `before` into buckets of the next resolution
+ * `before` must be aligned to the target bucket size so no bucket is split across runs
+ */
+export function downsampleProcessSamples(fromResolution: number, toResolution: number, before: number): number {
+  const bucketMs = toResolution * 1000;
+  const compact = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO process_samples (ts, resolution, pid, process_name, cpu, mem_rss, private_mem, mem_virtual, handles, threads)
+      SELECT (ts / @bucketMs) * @bucketMs AS bucket, @toResolution, pid, process_name,
+             AVG(cpu), CAST(AVG(mem_rss) AS INTEGER), CAST(AVG(private_mem) AS INTEGER), CAST(AVG(mem_virtual) AS INTEGER),
+             CAST(AVG(handles) AS INTEGER), CAST(AVG(threads) AS INTEGER)
+      FROM process_samples
+      WHERE resolution = @fromResolution AND ts < @before
+      GROUP BY pid, process_name, bucket
+    `).run({ bucketMs, toResolution, fromResolution, before });
+
+    return db.prepare('DELETE FROM process_samples WHERE resolution = ? AND ts < ?').run(fromResolution, before).changes;
+  });
+  return compact();
+}
+
+export function pruneProcessSamples(resolution: number, before: number): number {
+  const stmt = db.prepare('DELETE FROM process_samples WHERE resolution = ? AND ts < ?');
+  return stmt.run(resolution, before).changes;
+}
+
+/**
+ * Get a time series for one PID, or for all instances of a process name (summed per timestamp)
+ */
+export function getProcessSeries(query: ProcessSeriesQuery): ProcessSample[] {
+  const { pid, processName, from, to } = query;
+
+  if (pid !== undefined) {
+    // PIDs get recycled, so narrow by name as well when the caller knows it
+    if (processName) {
+      const stmt = db.prepare('SELECT * FROM process_samples WHERE pid = ? AND process_name = ? AND ts BETWEEN ? AND ? ORDER BY ts');
+      return stmt.all(pid, processName, from, to) as ProcessSample[];
+    }
+    const stmt = db.prepare('SELECT * FROM process_samples WHERE pid = ? AND ts BETWEEN ? AND ? ORDER BY ts');
+    return stmt.all(pid, from, to) as ProcessSample[];
+  }
+
+  const stmt = db.prepare(`
+    SELECT ts, resolution, -1 AS pid, process_name,
+           SUM(cpu) AS cpu, SUM(mem_rss) AS mem_rss, SUM(private_mem) AS private_mem, SUM(mem_virtual) AS mem_virtual,
+           SUM(handles) AS handles, SUM(threads) AS threads
+    FROM process_samples
+    WHERE process_name = ? AND ts BETWEEN ? AND ?
+    GROUP BY ts, resolution
+    ORDER BY ts
+  `);
+  return stmt.all(processName, from, to) as ProcessSample[];
+}
+
+export interface BucketedTrendSample {
+  pid: number;
+  process_name: string;
+  ts: number;
+  mem: number;            // bytes, private memory where known, RSS otherwise
+  handles: number | null; // null when the platform could not count them
+}
+
+/**
+ * Get every process's memory and handle count since `from`, averaged into fixed buckets
+ * Keeps leak scans cheap regardless of how many raw ticks are stored
+ */
+export function getRecentTrendSamples(from: number, bucketMs: number): BucketedTrendSample[] {
+  const stmt = db.prepare(`
+    SELECT pid, process_name, (ts / @bucketMs) * @bucketMs AS ts, AVG(COALESCE(private_mem, mem_rss)) AS mem, AVG(handles) AS handles
+    FROM process_samples
+    WHERE ts >= @from
+    GROUP BY pid, process_name, (ts / @bucketMs)
+    ORDER BY ts
+  `);
+  return stmt.all({ from, bucketMs }) as BucketedTrendSample[];
+}
+
+// LLM Usage Types
+// ts is epoch milliseconds, cost_usd is null when the model has no price configured
+export interface UsageRecord {
+  ts: number;
+  provider: string;       // Provider id from the chain: openrouter, gemini, local
+  model: string;
+  mode: string;           // Analysis mode the call was made for, e.g. 'Standard', 'Dev Mode'
+  purpose: 'analysis' | 'repair' | 'chat';
+  prompt_tokens: number;
+  completion_tokens: number;
+  tokens_estimated: number; // 1 when the provider reported no usage and tokens were estimated
+  latency_ms: number;
+  outcome: 'success' | 'error' | 'cancelled';
+  retries: number;        // Retry attempt this call was (0 = first try)
+  cost_usd: number | null;
+  error: string | null;
+}
+
+export interface UsageTotals {
+  key: string; // Day (YYYY-MM-DD, local time), provider or mode
+  calls: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  unpriced_calls: number; // Successful calls to models missing from the price table
+}
+
+export function saveUsageRecord(record: UsageRecord) {
+  const stmt = db.prepare(`
+    INSERT INTO llm_usage (ts, provider, model, mode, purpose, prompt_tokens, completion_tokens, tokens_estimated, latency_ms, outcome, retries, cost_usd, error)
+    VALUES (@ts, @provider, @model, @mode, @purpose, @prompt_tokens, @completion_tokens, @tokens_estimated, @latency_ms, @outcome, @retries, @cost_usd, @error)
+  `);
+  stmt.run(record);
+}
+
+const USAGE_GROUPS = {
+  day: "date(ts / 1000, 'unixepoch', 'localtime')",
+  provider: 'provider',
+  mode: 'mode'
+} as const;
+
+/**
+ * Call counts, tokens and cost since `from`, grouped by day, provider or analysis mode
+ */
+export function getUsageTotals(groupBy: keyof typeof USAGE_GROUPS, from: number): UsageTotals[] {
+  const key = USAGE_GROUPS[groupBy];
+  const stmt = db.prepare(`
+    SELECT ${key} AS key,
+           COUNT(*) AS calls,
+           SUM(outcome = 'error') AS errors,
+           SUM(prompt_tokens) AS prompt_tokens,
+           SUM(completion_tokens) AS completion_tokens,
+           COALESCE(SUM(cost_usd), 0) AS cost_usd,
+           SUM(outcome = 'success' AND cost_usd IS NULL) AS unpriced_calls
+    FROM llm_usage
+    WHERE ts >= ?
+    GROUP BY key
+    ORDER BY key ${groupBy === 'day' ? 'DESC' : 'ASC'}
+  `);
+  return stmt.all(from) as UsageTotals[];
+}
+
+export function getUsageCost(from: number): number {
+  const row = db.prepare('SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM llm_usage WHERE ts >= ?').get(from) as { cost: number };
+  return row.cost;
+}
+
+// Process Chat Types
+export interface ProcessChatMessage {
+  id?: number;
+  process_name: string;
+  identity: string;
+  ts: number; // epoch ms
+  role: 'user' | 'assistant';
+  content: string;
+  provider?: string | null; // Set on answers
+  model?: string | null;
+}
+
+export function saveProcessChatMessage(message: ProcessChatMessage): ProcessChatMessage {
+  const stmt = db.prepare(`
+    INSERT INTO process_chat_messages (process_name, identity, ts, role, content, provider, model)
+    VALUES (@process_name, @identity, @ts, @role, @content, @provider, @model)
+  `);
+  const { lastInsertRowid } = stmt.run({ ...message, provider: message.provider ?? null, model: message.model ?? null });
+  return { ...message, id: Number(lastInsertRowid) };
+}
+
+export function getProcessChatMessages(processName: string, identity: string): ProcessChatMessage[] {
+  const stmt = db.prepare('SELECT * FROM process_chat_messages WHERE process_name = ? AND identity = ? ORDER BY id');
+  return stmt.all(processName, identity) as ProcessChatMessage[];
+}
+
+export function clearProcessChatMessages(processName: string, identity: string): number {
+  const stmt = db.prepare('DELETE FROM process_chat_messages WHERE process_name = ? AND identity = ?');
+  return stmt.run(processName, identity).changes;
 }
@@ -0,0 +1,224 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { readFile, readlink, stat } from 'fs/promises';
+
+export interface ExecutableIdentity {
+  path?: string;
+  commandLine?: string;
+  sha256?: string;
+  hashState: 'pending' | 'done' | 'unavailable'; // unavailable = no path, or the file can't be read
+  deleted?: boolean; // The file is gone from disk while the process still runs
+  unverified?: boolean; // Path taken from the command line (argv[0]), the real executable was not readable
+}
+
+/** Fields of a systeminformation process entry the resolver needs */
+export interface IdentityProcess {
+  pid: number;
+  started?: string;
+  path?: string;
+  command?: string;
+  params?: string;
+}
+
+interface HashEntry {
+  mtimeMs: number;
+  size: number;
+  sha256: string | null; // null when the file could not be read
+  missing?: boolean;     // stat failed with ENOENT
+}
+
+interface ExecutableInfo {
+  path?: string;
+  commandLine?: string;
+  deleted?: boolean;
+  unverified?: boolean;
+}
+
+interface QueuedHash {
+  path: string;
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * Key the analysis cache on what a process actually runs, not just its name.
+ * The hash is preferred; a readable path stands in when the file can't be hashed.
+ * A path the process only claims (argv[0]) gets its own key, so it never shares a verdict
+ * with the binary it names, nor with processes that report no path at all.
+ * @returns '' when nothing is known (legacy name-only rows apply),
+ *          null while the hash is still being computed
+ */
+export function identityKey(identity: ExecutableIdentity): string | null {
+  switch (identity.hashState) {
+    case 'done':
+      return `sha256:${identity.sha256}`;
+    case 'unavailable':
+      if (!identity.path) return '';
+      return identity.unverified ? `unverified:${identity.path}` : `path:${identity.path}`;
+    case 'pending':
+      return null;
+  }
+}
+
+/**
+ * Resolves executable path, command line and content hash per process.
+ * Path and command line are read once per process (PID + start time), hashes are
+ * cached by path and invalidated when the file's mtime or size changes.
+ * Hashing runs one file at a time in the background so large binaries never stall a tick.
+ */
+export class ExecutableIdentityResolver {
+  private processes = new Map<string, ExecutableInfo>();
+  private hashes = new Map<string, HashEntry>();
+  private queue: QueuedHash[] = [];
+  private queued = new Set<string>();
+  private hashing = false;
+
+  async resolve(list: IdentityProcess[]): Promise<Map<number, ExecutableIdentity>> {
+    const current = new Set<string>();
+    const fresh: IdentityProcess[] = [];
+
+    for (const p of list) {
+      const key = processKey(p);
+      current.add(key);
+      if (!this.processes.has(key)) fresh.push(p);
+    }
+
+    // New processes: read path/command line and check the hash cache against the file on disk
+    await Promise.all(fresh.map(async p => {
+      const info = await readExecutableInfo(p);
+      this.processes.set(processKey(p), info);
+      if (info.path && !info.deleted && !info.unverified) await this.checkHash(info.path);
+    }));
+
+    for (const key of this.processes.keys()) {
+      if (!current.has(key)) this.processes.delete(key);
+    }
+
+    this.pumpQueue();
+
+    const identities = new Map<number, ExecutableIdentity>();
+    for (const p of list) {
+      identities.set(p.pid, this.identityOf(this.processes.get(processKey(p))));
+    }
+    return identities;
+  }
+
+  private identityOf(info: ExecutableInfo | undefined): ExecutableIdentity {
+    if (!info?.path) {
+      return { commandLine: info?.commandLine, hashState: 'unavailable' };
+    }
+    if (info.deleted) {
+      return { path: info.path, commandLine: info.commandLine, hashState: 'unavailable', deleted: true };
+    }
+    if (info.unverified) {
+      // Hashing the file argv[0] names would lend this process the genuine binary's identity
+      return { path: info.path, commandLine: info.commandLine, hashState: 'unavailable', unverified: true };
+    }
+
+    const entry = this.hashes.get(info.path);
+    if (!entry) {
+      return { path: info.path, commandLine: info.commandLine, hashState: 'pending' };
+    }
+
+    return entry.sha256
+      ? { path: info.path, commandLine: info.commandLine, sha256: entry.sha256, hashState: 'done' }
+      : { path: info.path, commandLine: info.commandLine, hashState: 'unavailable', deleted: entry.missing };
+  }
+
+  /**
+   * Keep the cached hash if the file is unchanged, otherwise queue it for hashing
+   */
+  private async checkHash(filePath: string): Promise<void> {
+    try {
+      const stats = await stat(filePath);
+      const cached = this.hashes.get(filePath);
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) return;
+
+      this.hashes.delete(filePath);
+      if (!this.queued.has(filePath)) {
+        this.queued.add(filePath);
+        this.queue.push({ path: filePath, mtimeMs: stats.mtimeMs, size: stats.size });
+      }
+    } catch (error) {
+      // Gone (a deleted binary that is still running) or not accessible
+      const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      this.hashes.set(filePath, { mtimeMs: 0, size: 0, sha256: null, missing });
+    }
+  }
+
+  private pumpQueue(): void {
+    if (this.hashing) return;
+
+    const next = this.queue.shift();
+    if (!next) return;
+
+    this.hashing = true;
+    hashFile(next.path)
+      .then(sha256 => {
+        this.hashes.set(next.path, { mtimeMs: next.mtimeMs, size: next.size, sha256 });
+      })
+      .catch(error => {
+        console.warn(`[ExecutableIdentity] Failed to hash ${next.path}: ${error.message}`);
+        this.hashes.set(next.path, { mtimeMs: next.mtimeMs, size: next.size, sha256: null });
+      })
+      .finally(() => {
+        this.queued.delete(next.path);
+        this.hashing = false;
+        this.pumpQueue();
+      });
+  }
+}
+
+const DELETED_SUFFIX = ' (deleted)';
+
+function processKey(p: IdentityProcess): string {
+  return `${p.pid}:${p.started || ''}`;
+}
+
+/**
+ * Executable path and full command line for one process
+ * systeminformation only has exact values on Windows (ExecutablePath/CommandLine);
+ * on Linux procfs is authoritative, elsewhere the parsed ps output is the best we have
+ */
+async function readExecutableInfo(p: IdentityProcess): Promise<ExecutableInfo> {
+  const fallbackCommandLine = [p.command, p.params].filter(Boolean).join(' ') || undefined;
+  const fallbackPath = p.path && p.command ? path.join(p.path, p.command) : undefined;
+
+  switch (process.platform) {
+    case 'win32':
+      return { path: p.path || undefined, commandLine: p.command || undefined };
+
+    case 'linux': {
+      const [exe, cmdline] = await Promise.all([
+        readlink(`/proc/${p.pid}/exe`).catch(() => undefined), // Only readable for our own processes without root
+        readFile(`/proc/${p.pid}/cmdline`, 'utf8').catch(() => undefined)
+      ]);
+      const commandLine = cmdline ? cmdline.split('\0').filter(Boolean).join(' ') : '';
+      if (exe === undefined) {
+        // Another user's process: fall back to the path ps parsed from its command line
+        return { path: fallbackPath, commandLine: commandLine || fallbackCommandLine, unverified: fallbackPath !== undefined };
+      }
+      // The kernel marks executables unlinked since exec with a " (deleted)" suffix
+      const deleted = exe.endsWith(DELETED_SUFFIX);
+      return {
+        path: deleted ? exe.slice(0, -DELETED_SUFFIX.length) : exe,
+        commandLine: commandLine || fallbackCommandLine,
+        deleted
+      };
+    }
+
+    default:
+      return { path: fallbackPath, commandLine: fallbackCommandLine };
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
@@ -0,0 +1,120 @@
+import {
+  saveProcessSamples,
+  downsampleProcessSamples,
+  pruneProcessSamples,
+  getProcessSeries,
+  ProcessSample,
+  ProcessSeriesQuery
+} from './Database.js';
+
+export type { ProcessSample, ProcessSeriesQuery };
+
+export interface HistoryRetentionConfig {
+  rawMinutes: number;   // Keep every tick for this long
+  minuteHours: number;  // Then per-minute averages for this long
+  hourDays: number;     // Then per-hour averages for this long
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetentionConfig = {
+  rawMinutes: 60,
+  minuteHours: 24,
+  hourDays: 30
+};
+
+// Bucket sizes in seconds; 0 marks raw samples
+const RAW = 0;
+const MINUTE = 60;
+const HOUR = 3600;
+
+const COMPACTION_INTERVAL = 60 * 1000;
+
+/** Minimal shape of an enriched process as produced by the collector */
+export interface SampledProcess {
+  pid: number;
+  name: string;
+  cpu?: number;
+  memRss?: number;        // bytes
+  privateMemory?: number; // MB
+  memVirtual?: number;    // bytes
+  handles?: number;
+  threads?: number;
+}
+
+// Module state
+let retention: HistoryRetentionConfig = { ...DEFAULT_HISTORY_RETENTION };
+let lastCompaction = 0;
+
+export function configureHistory(config: Partial<HistoryRetentionConfig>) {
+  retention = { ...DEFAULT_HISTORY_RETENTION, ...config };
+}
+
+export function getHistoryRetention(): HistoryRetentionConfig {
+  return retention;
+}
+
+/**
+ * Persist one polling tick and run compaction when due
+ */
+export function recordProcessSamples(processes: SampledProcess[], ts: number = Date.now()) {
+  const samples: ProcessSample[] = processes.map(p => ({
+    ts,
+    resolution: RAW,
+    pid: p.pid,
+    process_name: p.name,
+    cpu: p.cpu || 0,
+    mem_rss: p.memRss || 0,
+    private_mem: p.privateMemory !== undefined ? Math.round(p.privateMemory * 1024 * 1024) : null,
+    mem_virtual: p.memVirtual || 0,
+    handles: p.handles ?? null,
+    threads: p.threads ?? null
+  }));
+
+  try {
+    saveProcessSamples(samples);
+  } catch (error) {
+    console.error('[History] Failed to save process samples:', error);
+    return;
+  }
+
+  if (ts - lastCompaction >= COMPACTION_INTERVAL) {
+    lastCompaction = ts;
+    compactHistory(ts);
+  }
+}
+
+/**
+ * Roll raw samples into minute buckets, minute buckets into hour buckets,
+ * and drop hour buckets past the retention window
+ */
+export function compactHistory(now: number = Date.now()) {
+  try {
+    const rawCutoff = alignDown(now - retention.rawMinutes * 60 * 1000, MINUTE);
+    const minuteCutoff = alignDown(now - retention.minuteHours * 3600 * 1000, HOUR);
+    const hourCutoff = now - retention.hourDays * 24 * 3600 * 1000;
+
+    const rawCompacted = downsampleProcessSamples(RAW, MINUTE, rawCutoff);
+    const minuteCompacted = downsampleProcessSamples(MINUTE, HOUR, minuteCutoff);
+    const pruned = pruneProcessSamples(HOUR, hourCutoff);
+
+    if (rawCompacted + minuteCompacted + pruned > 0) {
+      console.log(`[History] Compacted ${rawCompacted} raw and ${minuteCompacted} minute samples, pruned ${pruned} hour samples`);
+    }
+  } catch (error) {
+    console.error('[History] Compaction failed:', error);
+  }
+}
+
+/**
+ * Get the stored series for a process within a time window
+ */
+export function queryProcessHistory(query: ProcessSeriesQuery): ProcessSample[] {
+  if (query.pid === undefined && !query.processName) {
+    throw new Error('Either pid or processName is required');
+  }
+  return getProcessSeries(query);
+}
+
+function alignDown(ts: number, bucketSeconds: number): number {
+  const bucketMs = bucketSeconds * 1000;
+  return Math.floor(ts / bucketMs) * bucketMs;
+}
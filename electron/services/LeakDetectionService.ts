@@ -0,0 +1,116 @@
+import { getRecentTrendSamples, DevModeAnalysisResult } from './Database.js';
+import { detectLeak, detectHandleLeak, LeakVerdict, HandleLeakVerdict, TrendPoint } from '../utils/leakDetection.js';
+
+export type { LeakVerdict, HandleLeakVerdict };
+
+const SCAN_INTERVAL = 60 * 1000;
+const WINDOW_MS = 30 * 60 * 1000; // Sliding window the trend is fitted over
+const BUCKET_MS = 30 * 1000;
+
+// Module state
+// Keyed by pid + name so a recycled PID never inherits another process's trend
+const verdicts = new Map<string, LeakVerdict>();
+const handleVerdicts = new Map<string, HandleLeakVerdict>();
+let lastScan = 0;
+
+function verdictKey(pid: number, name: string): string {
+  return `${pid}:${name}`;
+}
+
+function appendPoint(series: Map<string, TrendPoint[]>, key: string, point: TrendPoint) {
+  const points = series.get(key);
+  if (points) {
+    points.push(point);
+  } else {
+    series.set(key, [point]);
+  }
+}
+
+/**
+ * Re-fit memory and handle count trends for every process once per scan interval
+ */
+export function scanForLeaks(now: number = Date.now(), force = false) {
+  if (!force && now - lastScan < SCAN_INTERVAL) return;
+  lastScan = now;
+
+  try {
+    const samples = getRecentTrendSamples(now - WINDOW_MS, BUCKET_MS);
+
+    const series = new Map<string, TrendPoint[]>();
+    const handleSeries = new Map<string, TrendPoint[]>();
+    for (const sample of samples) {
+      const key = verdictKey(sample.pid, sample.process_name);
+      appendPoint(series, key, { ts: sample.ts, value: sample.mem / (1024 * 1024) });
+      if (sample.handles !== null) {
+        appendPoint(handleSeries, key, { ts: sample.ts, value: sample.handles });
+      }
+    }
+
+    verdicts.clear();
+    let leaks = 0;
+    for (const [key, points] of series) {
+      const verdict = detectLeak(points);
+      if (verdict) {
+        verdicts.set(key, verdict);
+        if (verdict.isLeak) leaks++;
+      }
+    }
+
+    handleVerdicts.clear();
+    let handleLeaks = 0;
+    for (const [key, points] of handleSeries) {
+      const verdict = detectHandleLeak(points);
+      if (verdict) {
+        handleVerdicts.set(key, verdict);
+        if (verdict.isLeak) handleLeaks++;
+      }
+    }
+
+    if (leaks > 0) {
+      console.log(`[LeakDetection] ${leaks} process(es) show sustained private memory growth`);
+    }
+    if (handleLeaks > 0) {
+      console.log(`[LeakDetection] ${handleLeaks} process(es) show sustained handle count growth`);
+    }
+  } catch (error) {
+    console.error('[LeakDetection] Scan failed:', error);
+  }
+}
+
+export function getLeakVerdict(pid: number, name: string): LeakVerdict | undefined {
+  return verdicts.get(verdictKey(pid, name));
+}
+
+export function getHandleLeakVerdict(pid: number, name: string): HandleLeakVerdict | undefined {
+  return handleVerdicts.get(verdictKey(pid, name));
+}
+
+/**
+ * Let a confident local Leak verdict override the AI's Dev Mode classification.
+ * The AI's own type is kept in ai_type so the UI can show both.
+ */
+export function applyLeakVerdict(
+  analysis: DevModeAnalysisResult | undefined,
+  verdict: LeakVerdict | undefined,
+  processName: string
+): DevModeAnalysisResult | undefined {
+  if (!verdict?.isLeak) {
+    return analysis;
+  }
+
+  const trend = `Private memory grew ${verdict.growthMbPerHour.toFixed(1)} MB/h over ${verdict.windowMinutes.toFixed(0)} min (R² ${verdict.rSquared.toFixed(2)}, confidence ${(verdict.confidence * 100).toFixed(0)}%).`;
+
+  if (analysis?.type === 'Leak') {
+    return { ...analysis, source: 'ai+detector' };
+  }
+
+  return {
+    process_name: processName,
+    type: 'Leak',
+    analysis: analysis ? `${trend} AI verdict was ${analysis.type}: ${analysis.analysis}` : trend,
+    recommendation: analysis?.recommendation || 'Capture heap snapshots a few minutes apart and diff retained allocations',
+    last_updated: analysis?.last_updated,
+    ai_type: analysis?.type,
+    source: 'detector'
+  };
+}
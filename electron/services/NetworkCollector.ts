@@ -0,0 +1,51 @@
+import si from 'systeminformation';
+import { groupConnectionsByPid, summarizeConnections, ProcessConnection, NetworkSummary } from '../utils/networkConnections.js';
+
+export type { ProcessConnection, NetworkSummary };
+
+// Enumerating sockets shells out (netstat/ss/lsof), so it runs far less often than the process poll
+const REFRESH_INTERVAL = 10 * 1000;
+
+/**
+ * Maps open sockets to PIDs.
+ * Refreshes in the background so a slow socket listing never delays a process tick;
+ * ticks attach whatever the last completed refresh found.
+ */
+export class NetworkCollector {
+  private connections = new Map<number, ProcessConnection[]>();
+  private summaries = new Map<number, NetworkSummary>();
+  private lastRefresh = 0;
+  private refreshing = false;
+
+  /**
+   * Start a refresh when one is due and none is running
+   */
+  refresh(now: number = Date.now()): void {
+    if (this.refreshing || now - this.lastRefresh < REFRESH_INTERVAL) return;
+
+    this.refreshing = true;
+    this.lastRefresh = now;
+
+    si.networkConnections()
+      .then(raw => {
+        this.connections = groupConnectionsByPid(raw);
+        this.summaries = new Map(
+          Array.from(this.connections, ([pid, list]) => [pid, summarizeConnections(list)])
+        );
+      })
+      .catch(error => {
+        console.error('[NetworkCollector] Failed to list connections:', error);
+      })
+      .finally(() => {
+        this.refreshing = false;
+      });
+  }
+
+  getSummary(pid: number): NetworkSummary | undefined {
+    return this.summaries.get(pid);
+  }
+
+  getConnections(pid: number): ProcessConnection[] {
+    return this.connections.get(pid) || [];
+  }
+}
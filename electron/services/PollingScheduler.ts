@@ -0,0 +1,191 @@
+import os from 'node:os';
+
+export const DEFAULT_POLL_INTERVAL = 2000;
+export const MIN_POLL_INTERVAL = 500;
+export const MAX_POLL_INTERVAL = 60 * 1000;
+
+const HIDDEN_BACKOFF = 5;    // Interval multiplier while the window is minimised or hidden
+const LOAD_BACKOFF = 2;      // Interval multiplier while the system is busy
+const HIGH_LOAD = 0.85;      // Share of CPU time not idle since the previous tick
+const MAX_BACKOFF_INTERVAL = 30 * 1000;
+
+export type PollingMode = 'normal' | 'hidden' | 'load';
+
+export interface PollingState {
+  intervalMs: number;          // Configured interval
+  effectiveIntervalMs: number; // Interval after back-off
+  mode: PollingMode;
+  skipped: number;             // Ticks dropped because a collection was still running
+}
+
+export interface PollingSchedulerOptions {
+  intervalMs: number;
+  task: () => Promise<void>;
+  isHidden: () => boolean;
+  onOverrun?: (skipped: number) => void;
+  getSystemLoad?: () => number; // 0..1, defaults to CPU time deltas from os.cpus()
+}
+
+/**
+ * Clamp a user supplied interval to the supported range
+ */
+export function normalizePollInterval(intervalMs: unknown): number {
+  const value = Number(intervalMs);
+  if (!Number.isFinite(value)) return DEFAULT_POLL_INTERVAL;
+  return Math.min(MAX_POLL_INTERVAL, Math.max(MIN_POLL_INTERVAL, Math.round(value)));
+}
+
+/**
+ * Runs the collection task on a configurable interval.
+ * Backs off while the window is hidden or the system is under load, and skips
+ * (and reports) ticks that would overlap a collection that is still running.
+ */
+export class PollingScheduler {
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+  private mode: PollingMode = 'normal';
+  private effectiveIntervalMs: number;
+  private skipped = 0;
+  private lastCpuTimes: { idle: number; total: number } | null = null;
+
+  constructor(private options: PollingSchedulerOptions) {
+    this.intervalMs = normalizePollInterval(options.intervalMs);
+    this.effectiveIntervalMs = this.intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  setInterval(intervalMs: number): void {
+    this.intervalMs = normalizePollInterval(intervalMs);
+    console.log(`[PollingScheduler] Interval set to ${this.intervalMs}ms`);
+    this.reschedule();
+  }
+
+  /**
+   * Re-evaluate the back-off now (e.g. the window was restored) instead of
+   * waiting out a long hidden interval
+   */
+  reschedule(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.scheduleNext();
+  }
+
+  /**
+   * Collect immediately, outside the regular cadence
+   * @returns false when a collection was already running
+   */
+  async sampleNow(): Promise<boolean> {
+    if (!this.run()) return false;
+    await this.inFlight;
+    return true;
+  }
+
+  getState(): PollingState {
+    return {
+      intervalMs: this.intervalMs,
+      effectiveIntervalMs: this.effectiveIntervalMs,
+      mode: this.mode,
+      skipped: this.skipped
+    };
+  }
+
+  private tick(): void {
+    this.run();
+    this.scheduleNext();
+  }
+
+  /**
+   * Start the task unless one is still running
+   */
+  private run(): boolean {
+    if (this.inFlight) {
+      this.skipped++;
+      console.warn(`[PollingScheduler] Collection still running, skipped tick (${this.skipped} total)`);
+      this.options.onOverrun?.(this.skipped);
+      return false;
+    }
+
+    this.inFlight = this.options.task()
+      .catch(error => {
+        console.error('[PollingScheduler] Task failed:', error);
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+
+    return true;
+  }
+
+  private scheduleNext(): void {
+    const { delay, mode } = this.nextDelay();
+
+    if (mode !== this.mode) {
+      console.log(mode === 'normal'
+        ? `[PollingScheduler] Back to ${delay}ms`
+        : `[PollingScheduler] Backing off to ${delay}ms (${mode === 'hidden' ? 'window hidden' : 'system under load'})`);
+    }
+
+    this.mode = mode;
+    this.effectiveIntervalMs = delay;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private nextDelay(): { delay: number; mode: PollingMode } {
+    const load = this.options.getSystemLoad ? this.options.getSystemLoad() : this.measureCpuLoad();
+    let delay = this.intervalMs;
+    let mode: PollingMode = 'normal';
+
+    if (load >= HIGH_LOAD) {
+      delay *= LOAD_BACKOFF;
+      mode = 'load';
+    }
+
+    // Hidden wins as the reported mode, it's the larger back-off
+    if (this.options.isHidden()) {
+      delay *= HIDDEN_BACKOFF;
+      mode = 'hidden';
+    }
+
+    if (mode !== 'normal') {
+      delay = Math.min(delay, Math.max(this.intervalMs, MAX_BACKOFF_INTERVAL));
+    }
+
+    return { delay, mode };
+  }
+
+  /**
+   * System-wide CPU load since the previous call
+   */
+  private measureCpuLoad(): number {
+    let idle = 0;
+    let total = 0;
+    for (const cpu of os.cpus()) {
+      const { user, nice, sys, irq } = cpu.times;
+      idle += cpu.times.idle;
+      total += user + nice + sys + irq + cpu.times.idle;
+    }
+
+    const previous = this.lastCpuTimes;
+    this.lastCpuTimes = { idle, total };
+    if (!previous || total <= previous.total) return 0;
+
+    return 1 - (idle - previous.idle) / (total - previous.total);
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  getAnalysis,
+  getDevModeAnalysis,
+  saveProcessChatMessage,
+  getProcessChatMessages,
+  clearProcessChatMessages,
+  ProcessChatMessage
+} from './Database.js';
+import { queryProcessHistory } from './HistoryService.js';
+import { completeChat } from './AIService.js';
+import type { EnrichedProcess } from './ProcessCollector.js';
+import { buildChatSystemPrompt, summarizeHistory, fitConversation, MAX_QUESTION_LENGTH } from '../utils/processChat.js';
+import { OS_PROFILES, detectPromptOS } from '../utils/promptTemplates.js';
+
+export type { ProcessChatMessage };
+
+// History shown to the model alongside the live metrics
+const HISTORY_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Transcripts are kept per executable (name + identity, like the analysis cache),
+ * so a conversation carries over when the process restarts with a new PID
+ */
+export function getProcessChat(processName: string, identity: string): ProcessChatMessage[] {
+  return getProcessChatMessages(processName, identity);
+}
+
+export function clearProcessChat(processName: string, identity: string): number {
+  return clearProcessChatMessages(processName, identity);
+}
+
+/**
+ * Ask a follow-up question about a running process
+ * The question and answer are stored only once the answer arrives, so a failed call leaves no half turn
+ * @returns The stored question and answer
+ */
+export async function askAboutProcess(process: EnrichedProcess, question: string): Promise<ProcessChatMessage[]> {
+  const text = question.trim();
+  if (!text) {
+    throw new Error('Question is empty');
+  }
+  if (text.length > MAX_QUESTION_LENGTH) {
+    throw new Error(`Question is longer than ${MAX_QUESTION_LENGTH} characters`);
+  }
+  if (process.identity === null) {
+    throw new Error('The executable is still being identified, try again in a moment');
+  }
+
+  const identity = process.identity;
+  const now = Date.now();
+  const system = buildChatSystemPrompt({
+    osName: OS_PROFILES[detectPromptOS()].os_name,
+    process,
+    analysis: getAnalysis(process.name, identity),
+    devAnalysis: getDevModeAnalysis(process.name, identity),
+    history: summarizeHistory(queryProcessHistory({ pid: process.pid, processName: process.name, from: now - HISTORY_WINDOW_MS, to: now }))
+  });
+
+  const transcript = getProcessChatMessages(process.name, identity).map(m => ({ role: m.role, content: m.content }));
+  const answer = await completeChat(contextTokens =>
+    fitConversation(system, [...transcript, { role: 'user', content: text }], contextTokens)
+  );
+
+  console.log(`[Chat] ${process.name}: answered by ${answer.provider} (${answer.model})`);
+
+  return [
+    saveProcessChatMessage({ process_name: process.name, identity, ts: now, role: 'user', content: text }),
+    saveProcessChatMessage({
+      process_name: process.name,
+      identity,
+      ts: Date.now(),
+      role: 'assistant',
+      content: answer.text,
+      provider: answer.provider,
+      model: answer.model
+    })
+  ];
+}
@@ -0,0 +1,220 @@
+import si, { Systeminformation } from 'systeminformation';
+import { getAnalysis, getDevModeAnalysis, AnalysisResult, DevModeAnalysisResult } from './Database.js';
+import { recordProcessSamples, HistoryRetentionConfig } from './HistoryService.js';
+import { scanForLeaks, getLeakVerdict, getHandleLeakVerdict, applyLeakVerdict, LeakVerdict, HandleLeakVerdict } from './LeakDetectionService.js';
+import { buildProcessTree, SubtreeTotals } from '../utils/processTree.js';
+import { ProcessDeltaEncoder, ProcessesUpdateMessage, ProcessSnapshotMessage } from '../utils/processDelta.js';
+import { NetworkCollector, NetworkSummary, ProcessConnection } from './NetworkCollector.js';
+import { collectSystemSnapshot, SystemSnapshot } from './SystemCollector.js';
+import { ExecutableIdentityResolver, identityKey } from './ExecutableIdentityService.js';
+import { AnalysisTtlConfig, isAnalysisStale } from '../utils/analysisExpiry.js';
+import { evaluateProcessRules, applyRuleFindings, defaultRuleContext, RuleFinding } from '../utils/processRules.js';
+import { createMemoryMetricsProvider, MemoryMetricsProvider, ProcessMemoryMetrics } from '../utils/MemoryMetricsProvider.js';
+
+export type EnrichedProcess = Omit<Systeminformation.ProcessesProcessData, 'mem'> & {
+  mem: number;            // RSS in bytes
+  memRss: number;         // bytes
+  memVirtual: number;     // bytes
+  privateMemory?: number; // MB
+  memPss?: number;        // bytes
+  memSwap?: number;       // bytes
+  handles?: number;       // Open handles (Windows) / file descriptors (Linux)
+  threads?: number;
+  memPct: number;
+  leak: LeakVerdict | null;
+  handleLeak: HandleLeakVerdict | null;
+  net?: NetworkSummary;   // Open sockets, refreshed less often than the tick
+  exePath?: string;       // Resolved executable path (si's `path` is only the directory on some platforms)
+  exePathUnverified?: boolean; // exePath is what the command line claims, the executable itself was not readable
+  commandLine?: string;
+  exeHash?: string;       // sha256 of the executable, computed in the background
+  identity: string | null; // Analysis cache key, null while the hash is pending
+  findings?: RuleFinding[]; // Local masquerade/anomaly rule hits, omitted when there are none
+  analysis: AnalysisResult | DevModeAnalysisResult | null;
+  treeParentPid: number | null;
+  subtree?: SubtreeTotals;
+};
+
+export interface CollectOptions {
+  devModeEnabled: boolean;
+}
+
+export interface CollectResult {
+  update: ProcessesUpdateMessage<EnrichedProcess>;
+  system: SystemSnapshot | null; // null when the system stats could not be read this tick
+  durationMs: number;
+  processCount: number;
+}
+
+// Message protocol between the main process (CollectorClient) and the collector worker
+export interface CollectorWorkerData {
+  dbPath: string;
+  historyRetention: Partial<HistoryRetentionConfig>;
+  analysisTtl: AnalysisTtlConfig;
+}
+
+export type CollectorRequest =
+  | { id: number; type: 'collect'; options: CollectOptions }
+  | { id: number; type: 'snapshot' }
+  | { id: number; type: 'latest' }
+  | { id: number; type: 'connections'; pid: number }
+  | { id: number; type: 'configure-history'; config: Partial<HistoryRetentionConfig> }
+  | { id: number; type: 'configure-analysis-ttl'; ttl: AnalysisTtlConfig }
+  | { id: number; type: 'shutdown' };
+
+export type CollectorResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
+
+/**
+ * One collection tick: sample processes, enrich them from the platform provider
+ * and the analysis cache, record history and encode the update for the renderer.
+ * Runs inside the collector worker so none of this blocks the Electron main thread.
+ */
+export class ProcessCollector {
+  private memoryMetricsProvider: MemoryMetricsProvider | null;
+  // processes-update carries a full snapshot once, then per-PID deltas of changed fields
+  private encoder = new ProcessDeltaEncoder<EnrichedProcess>();
+  private latest: EnrichedProcess[] = [];
+  private network = new NetworkCollector();
+  private identities = new ExecutableIdentityResolver();
+  private ruleContext = defaultRuleContext();
+
+  constructor(private analysisTtl: AnalysisTtlConfig) {
+    // Platform memory metrics provider (PowerShell on Windows, procfs on Linux)
+    this.memoryMetricsProvider = createMemoryMetricsProvider();
+  }
+
+  async collect(options: CollectOptions): Promise<CollectResult> {
+    const startedAt = Date.now();
+    this.network.refresh(startedAt);
+
+    // Fetch systeminformation data, native Private Memory data and system-wide stats in parallel
+    const [processes, memoryMetrics, system] = await Promise.all([
+      si.processes(),
+      this.getMemoryMetricsMap(),
+      collectSystemSnapshot(startedAt).catch(error => {
+        console.error('[ProcessCollector] Failed to collect system stats:', error);
+        return null;
+      })
+    ]);
+    const identities = await this.identities.resolve(processes.list);
+
+    // Enrich with Analysis Data from DB cache and native Private Memory
+    // Memory Metrics Explanation:
+    // - memRss (Resident Set Size): Memory currently in RAM, closest approximation to "Working Set"
+    // - memVsz (Virtual Size): Total committed memory including paged to disk
+    // - privateMemory: TRUE private memory from the platform provider (PowerShell on Windows, USS from /proc on Linux)
+    // - memPss / memSwap: Proportional set size and swapped-out memory (Linux only)
+    // - handles / threads: open handle (fd on Linux) and thread counts from the platform provider
+    // - leak: local trend verdict over the recorded history (overrides the Dev Mode AI type when confident)
+    // - handleLeak: the same trend test over handle counts, reported as its own signal
+    // - identity: cached analysis only applies to the same executable, so a renamed or
+    //   relocated binary is never shown with another program's verdict
+    // - findings: local rules (system name at the wrong path, deleted or temp-folder binary...);
+    //   critical findings override the AI risk level in normal mode
+    // - analysis.stale: the cached verdict is older than the TTL for its risk level
+    scanForLeaks();
+    const enrichedList: EnrichedProcess[] = processes.list.map(p => {
+      const leak = getLeakVerdict(p.pid, p.name);
+      const exe = identities.get(p.pid);
+      const identity = exe ? identityKey(exe) : '';
+      const hashPending = identity === null; // No cached verdict until we know which binary this is
+      const metrics = memoryMetrics.get(p.pid);
+      const user = p.user || metrics?.owner || '';
+      const findings = evaluateProcessRules(
+        { pid: p.pid, name: p.name, user, exePath: exe?.path, exeDeleted: exe?.deleted },
+        this.ruleContext
+      );
+      const analysis = options.devModeEnabled
+        ? applyLeakVerdict(hashPending ? undefined : getDevModeAnalysis(p.name, identity), leak, p.name)
+        : applyRuleFindings(hashPending ? undefined : this.withExpiry(getAnalysis(p.name, identity), startedAt), findings, p.name);
+
+      return {
+        ...p,
+        user,
+        mem: (p.memRss || 0) * 1024,
+        memRss: (p.memRss || 0) * 1024,
+        memVirtual: (p.memVsz || 0) * 1024,
+        privateMemory: metrics ? metrics.privateBytes / (1024 * 1024) : undefined,
+        memPss: metrics?.pssBytes,
+        memSwap: metrics?.swapBytes,
+        handles: metrics?.handleCount,
+        threads: metrics?.threadCount,
+        memPct: p.mem,
+        leak: leak || null,
+        handleLeak: getHandleLeakVerdict(p.pid, p.name) || null,
+        net: this.network.getSummary(p.pid),
+        exePath: exe?.path,
+        exePathUnverified: exe?.unverified,
+        commandLine: exe?.commandLine,
+        exeHash: exe?.sha256,
+        identity,
+        findings: findings.length > 0 ? findings : undefined,
+        analysis: analysis || null,
+        treeParentPid: null
+      };
+    });
+
+    // Attach the resolved tree parent and subtree totals so the renderer can nest without recomputing
+    const tree = buildProcessTree(enrichedList);
+    const treeList = enrichedList.map(p => {
+      const node = tree.byPid.get(p.pid);
+      return { ...p, treeParentPid: node?.parentPid ?? null, subtree: node?.totals };
+    });
+
+    // Persist this tick for the per-process history
+    recordProcessSamples(enrichedList);
+
+    this.latest = treeList;
+
+    return {
+      update: this.encoder.encode(treeList),
+      system,
+      durationMs: Date.now() - startedAt,
+      processCount: treeList.length
+    };
+  }
+
+  /**
+   * Full state at the current sequence number (renderer resync requests)
+   */
+  snapshot(): ProcessSnapshotMessage<EnrichedProcess> {
+    return this.encoder.snapshot();
+  }
+
+  /**
+   * Processes from the last completed tick, used as batch analysis input
+   */
+  getLatest(): EnrichedProcess[] {
+    return this.latest;
+  }
+
+  /**
+   * Sockets owned by a process as of the last network refresh
+   */
+  getConnections(pid: number): ProcessConnection[] {
+    return this.network.getConnections(pid);
+  }
+
+  configureAnalysisTtl(ttl: AnalysisTtlConfig) {
+    this.analysisTtl = ttl;
+  }
+
+  cleanup() {
+    this.memoryMetricsProvider?.cleanup();
+    this.memoryMetricsProvider = null;
+  }
+
+  private withExpiry(analysis: AnalysisResult | undefined, now: number): AnalysisResult | undefined {
+    return analysis && isAnalysisStale(analysis, this.analysisTtl, now) ? { ...analysis, stale: true } : analysis;
+  }
+
+  /**
+   * Fetch per-process memory metrics from the platform provider, keyed by PID
+   */
+  private async getMemoryMetricsMap(): Promise<Map<number, ProcessMemoryMetrics>> {
+    const metrics = await (this.memoryMetricsProvider?.getMemoryMetrics() || Promise.resolve([]));
+    return new Map(metrics.map(m => [m.pid, m]));
+  }
+}
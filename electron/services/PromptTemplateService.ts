@@ -0,0 +1,76 @@
+import {
+  PromptKind, PromptOS, DEFAULT_TEMPLATES, OS_PROFILES, PROMPT_PLACEHOLDERS,
+  detectPromptOS, renderTemplate, validateTemplate, templateVersion
+} from '../utils/promptTemplates.js';
+
+export type { PromptKind };
+
+// User templates that replace the built-in one for a kind; unset = built-in
+export type PromptTemplateOverrides = Partial<Record<PromptKind, string>>;
+
+export interface PromptTemplateInfo {
+  builtIn: string;
+  override: string | null;
+  version: string; // Version of the template currently in effect
+}
+
+export interface PromptTemplatesState {
+  os: PromptOS;
+  osName: string;
+  placeholders: string[];
+  templates: Record<PromptKind, PromptTemplateInfo>;
+}
+
+// Module state
+const os = detectPromptOS();
+let overrides: PromptTemplateOverrides = {};
+
+/**
+ * Apply user overrides; invalid or blank ones fall back to the built-in template
+ */
+export function configurePromptTemplates(config: PromptTemplateOverrides | undefined) {
+  overrides = {};
+  for (const kind of Object.keys(DEFAULT_TEMPLATES) as PromptKind[]) {
+    const template = config?.[kind];
+    if (typeof template !== 'string' || !template.trim()) continue;
+
+    const problem = validateTemplate(template);
+    if (problem) {
+      console.warn(`[Prompts] Ignoring ${kind} template override: ${problem}`);
+      continue;
+    }
+    overrides[kind] = template;
+  }
+}
+
+export function getPromptTemplates(): PromptTemplatesState {
+  const info = (kind: PromptKind): PromptTemplateInfo => ({
+    builtIn: DEFAULT_TEMPLATES[kind],
+    override: overrides[kind] ?? null,
+    version: getTemplateVersion(kind)
+  });
+  return { os, osName: OS_PROFILES[os].os_name, placeholders: [...PROMPT_PLACEHOLDERS], templates: { standard: info('standard'), devmode: info('devmode') } };
+}
+
+/**
+ * Version stamped on cached analyses; a different value means the prompt changed since
+ */
+export function getTemplateVersion(kind: PromptKind): string {
+  return templateVersion(kind, os, activeTemplate(kind));
+}
+
+/**
+ * Fill the active template with OS context and the CSV rows of one batch
+ */
+export function renderPrompt(kind: PromptKind, columns: string, rows: string, count: number): string {
+  return renderTemplate(activeTemplate(kind), {
+    ...OS_PROFILES[os],
+    columns,
+    process_data: rows,
+    process_count: String(count)
+  });
+}
+
+function activeTemplate(kind: PromptKind): string {
+  return overrides[kind] ?? DEFAULT_TEMPLATES[kind];
+}
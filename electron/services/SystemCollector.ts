@@ -0,0 +1,76 @@
+import si from 'systeminformation';
+import { readFile } from 'fs/promises';
+
+export interface SystemSnapshot {
+  ts: number;
+  memory: {
+    total: number;     // bytes
+    used: number;      // total - available, what applications actually hold
+    available: number; // Reclaimable without swapping
+    cached: number;    // Buffers + page cache
+    free: number;
+  };
+  swap: {
+    total: number;
+    used: number;
+  };
+  commit?: {
+    committed: number; // Committed_AS
+    limit: number;     // CommitLimit
+  };
+  cpu: {
+    load: number;      // % over all cores
+    cores: number[];   // % per core
+  };
+}
+
+/**
+ * Machine-wide memory and CPU state for the overview panel
+ * Collected alongside every process tick in the collector worker
+ */
+export async function collectSystemSnapshot(ts: number = Date.now()): Promise<SystemSnapshot> {
+  const [mem, load, commit] = await Promise.all([
+    si.mem(),
+    si.currentLoad(),
+    readCommitStats()
+  ]);
+
+  return {
+    ts,
+    memory: {
+      total: mem.total,
+      used: mem.total - mem.available,
+      available: mem.available,
+      cached: mem.buffcache,
+      free: mem.free
+    },
+    swap: {
+      total: mem.swaptotal,
+      used: mem.swapused
+    },
+    commit,
+    cpu: {
+      load: load.currentLoad,
+      cores: load.cpus.map(cpu => cpu.load)
+    }
+  };
+}
+
+/**
+ * Commit charge from /proc/meminfo (Linux only, systeminformation doesn't report it)
+ */
+async function readCommitStats(): Promise<SystemSnapshot['commit']> {
+  if (process.platform !== 'linux') return undefined;
+
+  try {
+    const meminfo = await readFile('/proc/meminfo', 'utf8');
+    const committed = meminfo.match(/^Committed_AS:\s+(\d+) kB$/m);
+    const limit = meminfo.match(/^CommitLimit:\s+(\d+) kB$/m);
+    if (!committed || !limit) return undefined;
+
+    return { committed: Number(committed[1]) * 1024, limit: Number(limit[1]) * 1024 };
+  } catch (error) {
+    console.error('[SystemCollector] Failed to read /proc/meminfo:', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,109 @@
+import { saveUsageRecord, getUsageTotals, getUsageCost, UsageRecord, UsageTotals } from './Database.js';
+import { PriceTable, DEFAULT_PRICE_TABLE, normalizePriceTable, estimateCost } from '../utils/usagePricing.js';
+import type { ProviderId } from '../utils/providerChain.js';
+
+export type { UsageTotals };
+
+export interface UsageSettings {
+  monthlyBudgetUsd: number; // 0 = no budget
+  prices: PriceTable;
+}
+
+export interface BudgetStatus {
+  spentUsd: number;  // Estimated cost since the start of the calendar month
+  budgetUsd: number;
+  exceeded: boolean;
+}
+
+export interface UsageReport extends BudgetStatus {
+  from: number;
+  byDay: UsageTotals[];
+  byProvider: UsageTotals[];
+  byMode: UsageTotals[];
+}
+
+/** One finished provider call, as seen by the AI service */
+export interface ProviderCall {
+  provider: ProviderId;
+  model: string;
+  mode: string;
+  purpose: UsageRecord['purpose'];
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean;
+  latencyMs: number;
+  outcome: UsageRecord['outcome'];
+  retries: number;
+  error?: string;
+}
+
+// Module state
+let settings: UsageSettings = { monthlyBudgetUsd: 0, prices: { ...DEFAULT_PRICE_TABLE } };
+
+export function configureUsage(config: Partial<UsageSettings>) {
+  const budget = Number(config.monthlyBudgetUsd);
+  settings = {
+    monthlyBudgetUsd: Number.isFinite(budget) && budget > 0 ? budget : 0,
+    prices: config.prices !== undefined ? normalizePriceTable(config.prices) : { ...DEFAULT_PRICE_TABLE }
+  };
+}
+
+export function getUsageSettings(): UsageSettings {
+  return settings;
+}
+
+/**
+ * Write one provider call to the ledger
+ * Accounting must never break an analysis run, so failures are only logged
+ */
+export function recordProviderCall(call: ProviderCall) {
+  // Failed calls aren't billed by the APIs we use
+  const cost = call.outcome === 'success'
+    ? estimateCost(settings.prices, call.provider, call.model, call.promptTokens, call.completionTokens)
+    : 0;
+
+  try {
+    saveUsageRecord({
+      ts: Date.now(),
+      provider: call.provider,
+      model: call.model,
+      mode: call.mode,
+      purpose: call.purpose,
+      prompt_tokens: call.promptTokens,
+      completion_tokens: call.completionTokens,
+      tokens_estimated: call.tokensEstimated ? 1 : 0,
+      latency_ms: call.latencyMs,
+      outcome: call.outcome,
+      retries: call.retries,
+      cost_usd: cost,
+      error: call.error ?? null
+    });
+  } catch (error) {
+    console.error('[Usage] Failed to record provider call:', error);
+  }
+}
+
+export function getBudgetStatus(): BudgetStatus {
+  const spentUsd = getUsageCost(startOfMonth());
+  const budgetUsd = settings.monthlyBudgetUsd;
+  return { spentUsd, budgetUsd, exceeded: budgetUsd > 0 && spentUsd >= budgetUsd };
+}
+
+/**
+ * Totals per day, provider and analysis mode over the last `days` days
+ */
+export function getUsageReport(days: number = 30): UsageReport {
+  const from = Date.now() - Math.max(1, days) * 24 * 60 * 60 * 1000;
+  return {
+    ...getBudgetStatus(),
+    from,
+    byDay: getUsageTotals('day', from),
+    byProvider: getUsageTotals('provider', from),
+    byMode: getUsageTotals('mode', from)
+  };
+}
+
+function startOfMonth(): number {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
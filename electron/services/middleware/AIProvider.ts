@@ -1,7 +1,42 @@
-import { AnalysisResult } from '../Database.js';
-import { ProcessInfo } from '../../utils/ProcessUtils.js';
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string;                   // Overrides the provider's default model
+  params?: Record<string, unknown>; // Generation params passed through as-is (e.g. { temperature: 0.2, reasoning_effort: 'high' })
+  signal?: AbortSignal;             // Aborts the HTTP request, e.g. when the analysis run is cancelled
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
 
+export interface CompletionResponse {
+  text: string;
+  model: string;          // Model that actually answered
+  usage?: CompletionUsage; // When the API reports token counts
+  truncated?: boolean;     // The answer stopped at the output token limit
+}
+
+/**
+ * A raw text-completion backend
+ * Providers know how to talk to one API and nothing else: prompts are built and
+ * responses parsed by analysis tasks (see utils/analysisTasks.ts), so adding a
+ * provider or an analysis type never touches the other side.
+ */
 export interface AIProvider {
   name: string;
-  analyze(processes: ProcessInfo[], prompt: string): Promise<AnalysisResult[]>;
+  isInitialized(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+/**
+ * Shorthand for the common single-turn case
+ */
+export function promptRequest(prompt: string, model?: string, params?: Record<string, unknown>): CompletionRequest {
+  return { messages: [{ role: 'user', content: prompt }], model, params };
 }
@@ -1,12 +1,11 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIProvider } from './AIProvider.js';
-import { ProcessInfo } from '../../utils/ProcessUtils.js';
-import { AnalysisResult } from '../Database.js';
+import { GoogleGenerativeAI, Content, FinishReason } from '@google/generative-ai';
+import { AIProvider, CompletionRequest, CompletionResponse } from './AIProvider.js';
+import { DEFAULT_MODELS } from '../../utils/providerChain.js';
 
 export class GeminiProvider implements AIProvider {
   name = 'Gemini';
   private genAI: GoogleGenerativeAI | null = null;
-  private modelName = 'gemini-2.5-flash';
+  private modelName = DEFAULT_MODELS.gemini;
 
   constructor(apiKey?: string) {
     if (apiKey) {
@@ -22,50 +21,33 @@ export class GeminiProvider implements AIProvider {
     return this.genAI !== null;
   }
 
-  async analyze(_processes: ProcessInfo[], prompt: string): Promise<AnalysisResult[]> {
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
     if (!this.genAI) {
       throw new Error('Gemini API not initialized');
     }
 
-    const model = this.genAI.getGenerativeModel({ model: this.modelName });
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parseResponse(text);
-  }
+    const modelName = request.model || this.modelName;
 
-  private parseResponse(text: string): AnalysisResult[] {
-    // Clean markdown code blocks if any
-    let jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    // Extract only the JSON array portion
-    const arrayStart = jsonStr.indexOf('[');
-    const arrayEnd = jsonStr.lastIndexOf(']');
-    
-    if (arrayStart === -1 || arrayEnd === -1 || arrayStart >= arrayEnd) {
-      throw new Error('No valid JSON array found in response');
-    }
-    
-    jsonStr = jsonStr.substring(arrayStart, arrayEnd + 1);
-    
-    try {
-      const data = JSON.parse(jsonStr) as Array<{
-        n: string;
-        r: 'Safe' | 'Bloat' | 'Unknown' | 'Critical';
-        d: string;
-        k: boolean;
-      }>;
+    // Gemini takes system prompts separately and calls the assistant role "model"
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents: Content[] = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
 
-      return data.map(item => ({
-        process_name: item.n,
-        risk_level: item.r,
-        description: item.d,
-        recommendation: item.k ? 'Keep - Required for system' : 'Safe to terminate'
-      }));
-    } catch (e) {
-      console.error('Failed to parse Gemini response:', jsonStr);
-      throw new Error('Failed to parse JSON response from Gemini');
-    }
+    const model = this.genAI.getGenerativeModel({
+      model: modelName,
+      ...(system ? { systemInstruction: system } : {}),
+      generationConfig: request.params
+    });
+    const result = await model.generateContent({ contents }, { signal: request.signal });
+    const response = await result.response;
+    const usage = response.usageMetadata;
+
+    return {
+      text: response.text(),
+      model: modelName,
+      truncated: response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS,
+      usage: usage ? { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount } : undefined
+    };
   }
 }
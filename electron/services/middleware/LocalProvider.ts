@@ -0,0 +1,125 @@
+import { AIProvider, CompletionRequest, CompletionResponse } from './AIProvider.js';
+import { DEFAULT_MODELS } from '../../utils/providerChain.js';
+
+export type LocalApiStyle = 'openai' | 'ollama';
+
+export interface LocalProviderConfig {
+  apiStyle: LocalApiStyle;
+  baseUrl: string;   // e.g. http://localhost:11434 (Ollama) or http://192.168.1.20:8080/v1 (llama.cpp, LM Studio, vLLM)
+  timeoutMs: number; // Local models on CPU can take minutes for a full batch
+  apiKey?: string;   // Only for OpenAI-compatible servers that require one
+}
+
+export const DEFAULT_LOCAL_PROVIDER_CONFIG: LocalProviderConfig = {
+  apiStyle: 'ollama',
+  baseUrl: 'http://localhost:11434',
+  timeoutMs: 120000
+};
+
+const MIN_TIMEOUT_MS = 5000;
+const MAX_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Fill in defaults and clamp values coming from settings
+ */
+export function normalizeLocalProviderConfig(config: Partial<LocalProviderConfig> = {}): LocalProviderConfig {
+  const timeoutMs = Number(config.timeoutMs);
+  return {
+    apiStyle: config.apiStyle === 'openai' ? 'openai' : 'ollama',
+    baseUrl: config.baseUrl?.trim() || DEFAULT_LOCAL_PROVIDER_CONFIG.baseUrl,
+    timeoutMs: Number.isFinite(timeoutMs)
+      ? Math.min(MAX_TIMEOUT_MS, Math.max(MIN_TIMEOUT_MS, timeoutMs))
+      : DEFAULT_LOCAL_PROVIDER_CONFIG.timeoutMs,
+    apiKey: config.apiKey?.trim() || undefined
+  };
+}
+
+/**
+ * Self-hosted model on localhost or the LAN, so process lists never leave the network
+ * Speaks either the OpenAI chat completions API or Ollama's native /api/chat
+ * The model comes with each request (provider chain settings)
+ */
+export class LocalProvider implements AIProvider {
+  name = 'Local';
+  private config: LocalProviderConfig | null = null;
+
+  configure(config: LocalProviderConfig | null) {
+    this.config = config;
+  }
+
+  isInitialized(): boolean {
+    return this.config !== null && this.config.baseUrl.trim() !== '';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (!this.config || !this.isInitialized()) {
+      throw new Error('Local provider not configured');
+    }
+
+    const { apiStyle, baseUrl, timeoutMs, apiKey } = this.config;
+    const modelName = request.model || DEFAULT_MODELS.local;
+    const base = baseUrl.trim().replace(/\/+$/, '');
+
+    // OpenAI-compatible servers put the API under /v1, accept the base URL with or without it
+    const url = apiStyle === 'ollama'
+      ? `${base}/api/chat`
+      : `${base.endsWith('/v1') ? base : `${base}/v1`}/chat/completions`;
+
+    const body = apiStyle === 'ollama'
+      ? { model: modelName, messages: request.messages, stream: false, options: request.params }
+      : { model: modelName, ...request.params, messages: request.messages, stream: false };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal: request.signal ? AbortSignal.any([request.signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Local provider timed out after ${Math.round(timeoutMs / 1000)}s (${url})`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const retryAfter = response.headers.get('retry-after');
+      throw new Error(`Local provider refused: ${response.status} ${response.statusText} - ${errorText}${retryAfter ? ` (Retry-After: ${retryAfter})` : ''}`);
+    }
+
+    const data = await response.json();
+
+    if (apiStyle === 'ollama') {
+      if (!data.message || typeof data.message.content !== 'string') {
+        throw new Error('Invalid response format from Ollama');
+      }
+      return {
+        text: data.message.content,
+        model: data.model || modelName,
+        truncated: data.done_reason === 'length',
+        usage: data.prompt_eval_count !== undefined
+          ? { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count ?? 0 }
+          : undefined
+      };
+    }
+
+    if (!data.choices || data.choices.length === 0 || !data.choices[0].message) {
+      throw new Error('Invalid response format from local OpenAI-compatible server');
+    }
+
+    return {
+      text: data.choices[0].message.content,
+      model: data.model || modelName,
+      truncated: data.choices[0].finish_reason === 'length',
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+        : undefined
+    };
+  }
+}
@@ -1,13 +1,12 @@
-import { AIProvider } from './AIProvider.js';
-import { ProcessInfo } from '../../utils/ProcessUtils.js';
-import { AnalysisResult } from '../Database.js';
+import { AIProvider, CompletionRequest, CompletionResponse } from './AIProvider.js';
+import { DEFAULT_MODELS } from '../../utils/providerChain.js';
 
 export class OpenRouterProvider implements AIProvider {
   name = 'OpenRouter';
   private apiKey: string | null = null;
-  private modelName = 'gpt-oss-20b';
+  private modelName = DEFAULT_MODELS.openrouter;
   private modelParams: Record<string, any> = {};
-  
+
   constructor(apiKey?: string, model?: string, modelParams?: Record<string, any>) {
     if (apiKey) {
       this.initialize(apiKey);
@@ -28,11 +27,13 @@ export class OpenRouterProvider implements AIProvider {
     return this.apiKey !== null;
   }
 
-  async analyze(_processes: ProcessInfo[], prompt: string): Promise<AnalysisResult[]> {
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
     if (!this.apiKey) {
       throw new Error('OpenRouter API key not set');
     }
 
+    const modelName = request.model || this.modelName;
+
     const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -42,105 +43,34 @@ export class OpenRouterProvider implements AIProvider {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        model: this.modelName,
-        // Add model-specific parameters (e.g., { 'reasoning_effort': 'high' })
+        model: modelName,
+        // Add model-specific parameters (e.g., { 'reasoning_effort': 'high' }), per-request params win
         ...this.modelParams,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      })
+        ...request.params,
+        messages: request.messages
+      }),
+      signal: request.signal
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenRouter API refused: ${response.status} ${response.statusText} - ${errorText}`);
+      const retryAfter = response.headers.get('retry-after');
+      throw new Error(`OpenRouter API refused: ${response.status} ${response.statusText} - ${errorText}${retryAfter ? ` (Retry-After: ${retryAfter})` : ''}`);
     }
 
     const data = await response.json();
-    
-    if (!data.choices || data.choices.length === 0 || !data.choices[0].message) {
-      throw new Error('Invalid response format from OpenRouter');
-    }
-
-    const text = data.choices[0].message.content;
-    return this.parseResponse(text);
-  }
-
-  /**
-   * Get raw completion text from OpenRouter (for Dev Mode parsing)
-   */
-  async getRawCompletion(prompt: string): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('OpenRouter API key not set');
-    }
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'HTTP-Referer': 'https://github.com/chunkchop/react-ts',
-        'X-Title': 'ChunkChop Process Analyzer',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.modelName,
-        ...this.modelParams,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API refused: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    
     if (!data.choices || data.choices.length === 0 || !data.choices[0].message) {
       throw new Error('Invalid response format from OpenRouter');
     }
 
-    return data.choices[0].message.content;
-  }
-
-  private parseResponse(text: string): AnalysisResult[] {
-    
-    let jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    const arrayStart = jsonStr.indexOf('[');
-    const arrayEnd = jsonStr.lastIndexOf(']');
-    
-    if (arrayStart === -1 || arrayEnd === -1 || arrayStart >= arrayEnd) {
-      throw new Error('No valid JSON array found in response');
-    }
-    
-    jsonStr = jsonStr.substring(arrayStart, arrayEnd + 1);
-    
-    try {
-      const data = JSON.parse(jsonStr) as Array<{
-        n: string;
-        r: 'Safe' | 'Bloat' | 'Unknown' | 'Critical';
-        d: string;
-        k: boolean;
-      }>;
-
-      return data.map(item => ({
-        process_name: item.n,
-        risk_level: item.r,
-        description: item.d,
-        recommendation: item.k ? 'Keep - Required for system' : 'Safe to terminate'
-      }));
-    } catch (e) {
-      console.error('Failed to parse OpenRouter response:', jsonStr);
-      throw new Error('Failed to parse JSON response from OpenRouter');
-    }
+    return {
+      text: data.choices[0].message.content,
+      model: data.model || modelName,
+      truncated: data.choices[0].finish_reason === 'length',
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+        : undefined
+    };
   }
 }
@@ -0,0 +1,127 @@
+import { sleep } from '../../utils/ProcessUtils.js';
+import type { ProviderRateLimits } from '../../utils/providerChain.js';
+
+/**
+ * Token buckets for one provider: requests/min and tokens/min (0 = unlimited), refilled continuously
+ * and allowed to burst up to a full minute's worth. Callers queue in FIFO order,
+ * and a 429 pauses the whole provider for its Retry-After.
+ */
+export class RateLimiter {
+  private limits: ProviderRateLimits;
+  private requestBucket: number;
+  private tokenBucket: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private active = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private releaseWaiters: Array<() => void> = [];
+
+  constructor(private name: string, limits: ProviderRateLimits) {
+    this.limits = limits;
+    this.requestBucket = limits.requestsPerMinute;
+    this.tokenBucket = limits.tokensPerMinute;
+  }
+
+  configure(limits: ProviderRateLimits) {
+    this.refill();
+    const previous = this.limits;
+    this.limits = limits;
+    // A limit that was off starts with a full bucket
+    this.requestBucket = previous.requestsPerMinute === 0 ? limits.requestsPerMinute : Math.min(this.requestBucket, limits.requestsPerMinute);
+    this.tokenBucket = previous.tokensPerMinute === 0 ? limits.tokensPerMinute : Math.min(this.tokenBucket, limits.tokensPerMinute);
+    this.notifyRelease();
+  }
+
+  /**
+   * Wait for a free slot and enough budget, then take them
+   * @param tokens Estimated prompt + answer tokens of the request
+   * @param signal Gives up the place in the queue when aborted
+   * @returns Call once the request is done to free its concurrency slot
+   */
+  async acquire(tokens: number, signal?: AbortSignal): Promise<() => void> {
+    const turn = this.queue.then(() => this.waitForCapacity(tokens, signal));
+    this.queue = turn.catch(() => undefined);
+    await turn;
+
+    this.active++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.notifyRelease();
+    };
+  }
+
+  /**
+   * Stop sending for a while after the provider answered 429
+   */
+  pause(ms: number) {
+    const until = Date.now() + ms;
+    if (until > this.blockedUntil) {
+      this.blockedUntil = until;
+      console.warn(`[RateLimiter] ${this.name} rate limited, pausing for ${Math.round(ms / 1000)}s`);
+    }
+  }
+
+  private async waitForCapacity(tokens: number, signal?: AbortSignal) {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      const now = Date.now();
+
+      if (this.blockedUntil > now) {
+        await sleep(this.blockedUntil - now, signal);
+        continue;
+      }
+
+      if (this.active >= Math.max(1, this.limits.maxConcurrent)) {
+        await new Promise<void>(resolve => {
+          // Drop the abort listener once woken, this loop can wait many times on the same signal
+          const wake = () => {
+            signal?.removeEventListener('abort', wake);
+            resolve();
+          };
+          this.releaseWaiters.push(wake);
+          signal?.addEventListener('abort', wake, { once: true });
+        });
+        continue;
+      }
+
+      const { requestsPerMinute, tokensPerMinute } = this.limits;
+      // A request bigger than a whole minute's budget waits for a full bucket instead of forever
+      const cost = Math.min(tokens, tokensPerMinute);
+      const requestWait = requestsPerMinute > 0 && this.requestBucket < 1
+        ? (1 - this.requestBucket) * 60000 / requestsPerMinute
+        : 0;
+      const tokenWait = tokensPerMinute > 0 && this.tokenBucket < cost
+        ? (cost - this.tokenBucket) * 60000 / tokensPerMinute
+        : 0;
+
+      if (requestWait > 0 || tokenWait > 0) {
+        await sleep(Math.ceil(Math.max(requestWait, tokenWait)), signal);
+        continue;
+      }
+
+      if (requestsPerMinute > 0) this.requestBucket -= 1;
+      if (tokensPerMinute > 0) this.tokenBucket -= cost;
+      return;
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    this.requestBucket = Math.min(requestsPerMinute, this.requestBucket + elapsed * requestsPerMinute / 60000);
+    this.tokenBucket = Math.min(tokensPerMinute, this.tokenBucket + elapsed * tokensPerMinute / 60000);
+  }
+
+  private notifyRelease() {
+    const waiters = this.releaseWaiters;
+    this.releaseWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -5,6 +5,7 @@ export interface RetryOptions {
   maxRetries?: number;
   baseDelay?: number;
   onRetry?: (attempt: number, error: any) => void;
+  signal?: AbortSignal; // Stops retrying (and waiting to retry) once aborted
 }
 
 export async function withRetry<T>(
@@ -14,12 +15,14 @@ export async function withRetry<T>(
   const { 
     maxRetries = 3, 
     baseDelay = 1000,
-    onRetry 
+    onRetry,
+    signal
   } = options;
 
   let lastError: any;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await operation();
     } catch (error) {
@@ -27,7 +30,7 @@ export async function withRetry<T>(
       const isRetryable = isRetryableError(error);
       const isLastAttempt = attempt === maxRetries;
 
-      if (!isRetryable || isLastAttempt) {
+      if (!isRetryable || isLastAttempt || signal?.aborted) {
         throw error;
       }
 
@@ -37,7 +40,7 @@ export async function withRetry<T>(
         onRetry(attempt + 1, error);
       }
 
-      await sleep(delay);
+      await sleep(delay, signal);
     }
   }
 
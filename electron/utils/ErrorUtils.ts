@@ -46,3 +46,50 @@ export function isRetryableError(error: any): boolean {
   
   return false;
 }
+
+export const ANALYSIS_CANCELLED = 'Analysis cancelled';
+
+/**
+ * Check if an error comes from a cancelled analysis run rather than a real failure
+ */
+export function isCancellationError(error: unknown): boolean {
+  return getErrorMessage(error) === ANALYSIS_CANCELLED || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Check if the provider rejected the request for exceeding its rate limit or quota
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const errorMessage = getErrorMessage(error);
+  return errorMessage.includes('429') || errorMessage.includes('Too Many Requests') || errorMessage.includes('RESOURCE_EXHAUSTED');
+}
+
+/**
+ * How long a rate-limited provider asked us to wait, if it said so
+ * Covers the Retry-After header (added to the error by our providers) and Gemini's "retry in 12.3s" / retryDelay
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const errorMessage = getErrorMessage(error);
+  const match = errorMessage.match(/retry[- ]after:?\s*(\d+(?:\.\d+)?)/i) ||
+    errorMessage.match(/retry in (\d+(?:\.\d+)?)\s*s/i) ||
+    errorMessage.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+}
+
+/**
+ * Check if the request was too long for the model: prompt over the context window,
+ * or an answer cut off at the output limit. Retrying the same batch won't help, a smaller one will.
+ */
+export function isContextLengthError(error: unknown): boolean {
+  const errorMessage = getErrorMessage(error).toLowerCase();
+
+  return [
+    'context length',        // OpenAI / OpenRouter: "maximum context length is ..."
+    'context_length_exceeded',
+    'context size',          // llama.cpp: "exceeds the available context size"
+    'context window',
+    'input token count',     // Gemini: "The input token count (...) exceeds the maximum ..."
+    'too many tokens',
+    'output token limit'     // Truncated answers, see completeTask
+  ].some(pattern => errorMessage.includes(pattern));
+}
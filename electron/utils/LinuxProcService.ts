@@ -0,0 +1,111 @@
+import { readdir, readFile } from 'fs/promises';
+import { MemoryMetricsProvider, ProcessMemoryMetrics } from './MemoryMetricsProvider.js';
+
+/**
+ * LinuxProcService reads per-process memory metrics straight from procfs.
+ * smaps_rollup gives exact USS/PSS but is only readable for processes we are
+ * allowed to ptrace, so /proc/<pid>/status is used as a fallback for the rest.
+ * Open descriptors are counted from /proc/<pid>/fd under the same restriction.
+ */
+export class LinuxProcService implements MemoryMetricsProvider {
+  name = 'procfs';
+
+  /**
+   * Get memory metrics for every process visible in /proc
+   */
+  async getMemoryMetrics(): Promise<ProcessMemoryMetrics[]> {
+    let entries: string[];
+    try {
+      entries = await readdir('/proc');
+    } catch (error) {
+      console.error('[LinuxProcService] Failed to list /proc:', error);
+      return [];
+    }
+
+    const pids = entries.filter(entry => /^\d+$/.test(entry)).map(Number);
+    const results = await Promise.all(pids.map(pid => this.readProcessMetrics(pid)));
+
+    return results.filter((metrics): metrics is ProcessMemoryMetrics => metrics !== null);
+  }
+
+  /**
+   * Read metrics for a single PID
+   * Returns null for kernel threads and processes that exited mid-read
+   */
+  private async readProcessMetrics(pid: number): Promise<ProcessMemoryMetrics | null> {
+    const status = await this.readProcFile(pid, 'status');
+    if (!status) return null;
+
+    const statusFields = parseKbFields(status);
+    const vmRss = statusFields.get('VmRSS');
+
+    // Kernel threads have no user-space memory at all
+    if (vmRss === undefined) return null;
+
+    const threadsMatch = status.match(/^Threads:\s+(\d+)$/m);
+    const threadCount = threadsMatch ? Number(threadsMatch[1]) : undefined;
+    const [rollup, handleCount] = await Promise.all([
+      this.readProcFile(pid, 'smaps_rollup'),
+      this.countFileDescriptors(pid)
+    ]);
+
+    if (rollup) {
+      const rollupFields = parseKbFields(rollup);
+      return {
+        pid,
+        privateBytes: (rollupFields.get('Private_Clean') || 0) + (rollupFields.get('Private_Dirty') || 0),
+        pssBytes: rollupFields.get('Pss'),
+        rssBytes: rollupFields.get('Rss') ?? vmRss,
+        swapBytes: rollupFields.get('Swap') ?? statusFields.get('VmSwap'),
+        handleCount,
+        threadCount,
+      };
+    }
+
+    // No access to smaps_rollup: anonymous resident memory is the closest USS approximation
+    return {
+      pid,
+      privateBytes: statusFields.get('RssAnon') ?? vmRss,
+      rssBytes: vmRss,
+      swapBytes: statusFields.get('VmSwap'),
+      handleCount,
+      threadCount,
+    };
+  }
+
+  private async countFileDescriptors(pid: number): Promise<number | undefined> {
+    try {
+      return (await readdir(`/proc/${pid}/fd`)).length;
+    } catch {
+      return undefined; // Same access rules as smaps_rollup
+    }
+  }
+
+  private async readProcFile(pid: number, file: string): Promise<string | null> {
+    try {
+      return await readFile(`/proc/${pid}/${file}`, 'utf8');
+    } catch {
+      return null; // EACCES for foreign processes, ENOENT if the process exited
+    }
+  }
+
+  cleanup(): void {
+    // Nothing to release, procfs is read on demand
+  }
+}
+
+/**
+ * Parse "Key:   1234 kB" lines into a map of byte values
+ */
+function parseKbFields(text: string): Map<string, number> {
+  const fields = new Map<string, number>();
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\w+):\s+(\d+)\s+kB$/);
+    if (match) {
+      fields.set(match[1], Number(match[2]) * 1024);
+    }
+  }
+
+  return fields;
+}
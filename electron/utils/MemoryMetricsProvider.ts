@@ -0,0 +1,40 @@
+import { PowerShellService } from './PowerShellService.js';
+import { LinuxProcService } from './LinuxProcService.js';
+
+export interface ProcessMemoryMetrics {
+  pid: number;
+  privateBytes: number; // USS / Private Working Set
+  pssBytes?: number; // Proportional Set Size (Linux only)
+  rssBytes?: number;
+  swapBytes?: number;
+  handleCount?: number; // Open handles (Windows) / file descriptors (Linux), when readable
+  threadCount?: number;
+  owner?: string; // Account the process runs as, where systeminformation leaves it empty (Windows)
+}
+
+/**
+ * Platform-specific source of per-process private memory metrics.
+ * systeminformation only reports RSS/VSZ, so each OS needs its own backend
+ * to get at the memory that is actually unique to a process.
+ */
+export interface MemoryMetricsProvider {
+  name: string;
+  getMemoryMetrics(): Promise<ProcessMemoryMetrics[]>;
+  cleanup(): void;
+}
+
+/**
+ * Pick the memory metrics backend for the current platform
+ * Returns null when no native backend exists (metrics fall back to RSS)
+ */
+export function createMemoryMetricsProvider(platform: NodeJS.Platform = process.platform): MemoryMetricsProvider | null {
+  switch (platform) {
+    case 'win32':
+      return new PowerShellService();
+    case 'linux':
+      return new LinuxProcService();
+    default:
+      console.warn(`[MemoryMetrics] No native memory metrics provider for ${platform}, falling back to RSS`);
+      return null;
+  }
+}
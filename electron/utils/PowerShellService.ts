@@ -1,8 +1,12 @@
 import { spawn, ChildProcess } from 'child_process';
+import { MemoryMetricsProvider, ProcessMemoryMetrics } from './MemoryMetricsProvider.js';
 
 export interface PrivateMemoryStats {
   Id: number;
   PrivateMemorySize64: number;
+  HandleCount?: number;
+  ThreadCount?: number;
+  UserName?: string | null; // Only when PowerShell runs elevated
 }
 
 /**
@@ -10,7 +14,8 @@ export interface PrivateMemoryStats {
  * Private Working Set memory metrics for all processes.
  * This is more accurate than systeminformation's memRss on Windows.
  */
-export class PowerShellService {
+export class PowerShellService implements MemoryMetricsProvider {
+  name = 'PowerShell';
   private process: ChildProcess | null = null;
   private isRestarting = false;
   private responseBuffer = '';
@@ -99,9 +104,10 @@ export class PowerShellService {
       // Clear the buffer before sending command
       this.responseBuffer = '';
 
-      // PowerShell command to get Process ID and Private Memory Size
+      // PowerShell command to get Process ID, Private Memory Size, handle and thread counts and the owner
+      // -IncludeUserName needs elevation; without it UserName comes back null instead of failing the query
       // Using -Compress to reduce whitespace and make parsing easier
-      const command = 'Get-Process | Select-Object Id, PrivateMemorySize64 | ConvertTo-Json -Compress\n';
+      const command = "$procs = try { Get-Process -IncludeUserName -ErrorAction Stop } catch { Get-Process }; $procs | Select-Object Id, PrivateMemorySize64, HandleCount, @{n='ThreadCount';e={$_.Threads.Count}}, UserName | ConvertTo-Json -Compress\n";
       
       // Write command to stdin
       this.process.stdin.write(command);
@@ -128,6 +134,20 @@ export class PowerShellService {
     }
   }
 
+  /**
+   * MemoryMetricsProvider implementation backed by PrivateMemorySize64
+   */
+  async getMemoryMetrics(): Promise<ProcessMemoryMetrics[]> {
+    const stats = await this.getPrivateMemoryStats();
+    return stats.map(stat => ({
+      pid: stat.Id,
+      privateBytes: stat.PrivateMemorySize64,
+      handleCount: stat.HandleCount,
+      threadCount: stat.ThreadCount,
+      owner: stat.UserName || undefined,
+    }));
+  }
+
   /**
    * Wait for PowerShell response with timeout
    */
@@ -1,29 +1,86 @@
 
+import { NetworkSummary, formatNetworkSummary, mergeNetworkSummaries } from './networkConnections.js';
+
 export interface ProcessInfo {
   name: string;
   cpu: number;
   mem: number; // Private Working Set in MB (from PowerShell)
   memRss?: number; // Total Working Set in MB (for Dev Mode)
+  growthMbPerHour?: number; // Private memory trend from the local leak detector (Dev Mode)
+  handles?: number; // Open handles / file descriptors (Dev Mode)
+  handleGrowthPerHour?: number; // Handle count trend from the local leak detector (Dev Mode)
+  net?: NetworkSummary; // Listening ports and remote peers, when the process has sockets
+  identity?: string; // Executable identity the result is cached under ('' when unknown)
+  path?: string; // Executable path, when it could be resolved
 }
 
 
 /**
- * Deduplicate processes by name (case-insensitive)
+ * Deduplicate processes by name (case-insensitive) and executable identity
  * Returns array of unique processes, keeping the first occurrence of each
+ * Network activity is merged across instances since they share one analysis
  */
 export function deduplicateProcesses(processes: ProcessInfo[]): ProcessInfo[] {
   const seen = new Map<string, ProcessInfo>();
   
   for (const process of processes) {
-    const normalizedName = process.name.toLowerCase();
-    if (!seen.has(normalizedName)) {
-      seen.set(normalizedName, process);
+    const key = `${process.name.toLowerCase()}|${process.identity ?? ''}`;
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, process);
+    } else if (process.net) {
+      seen.set(key, { ...first, net: mergeNetworkSummaries(first.net, process.net) });
     }
   }
   
   return Array.from(seen.values());
 }
 
+export interface Reconciliation<T> {
+  matched: T[];            // Results tied to an input row, renamed to the input's name and tagged with its identity
+  unknown: T[];            // Results naming no (remaining) input row: hallucinated names or extra duplicates
+  missing: ProcessInfo[];  // Input rows no result was returned for
+}
+
+/**
+ * Match AI results back to the processes that were sent
+ * Names compare case-insensitively and with or without a trailing ".exe"; exact
+ * matches win over suffix ones. Results only carry a name, so each one claims the
+ * next unclaimed input row of that name; prompts ask for one entry per row in input
+ * order, which keeps same-named executables apart.
+ */
+export function reconcileResults<T extends { process_name: string; identity?: string; exe_path?: string | null }>(
+  results: T[],
+  processes: ProcessInfo[]
+): Reconciliation<T> {
+  const unclaimed = [...processes];
+  const matched: T[] = [];
+  const unknown: T[] = [];
+
+  for (const result of results) {
+    const name = typeof result.process_name === 'string' ? result.process_name.trim().toLowerCase() : '';
+    let index = unclaimed.findIndex(p => p.name.toLowerCase() === name);
+    if (index === -1) {
+      index = unclaimed.findIndex(p => stripExe(p.name.toLowerCase()) === stripExe(name));
+    }
+
+    if (index === -1) {
+      unknown.push(result);
+      continue;
+    }
+
+    const [process] = unclaimed.splice(index, 1);
+    // Cached under the collector's spelling, so lookups by process name find it
+    matched.push({ ...result, process_name: process.name, identity: process.identity ?? '', exe_path: process.path ?? null });
+  }
+
+  return { matched, unknown, missing: unclaimed };
+}
+
+function stripExe(name: string): string {
+  return name.endsWith('.exe') ? name.slice(0, -4) : name;
+}
+
 /**
  * Split an array into chunks of specified size
  */
@@ -37,95 +94,87 @@ export function chunkArray<T>(array: T[], chunkSize: number): T[][] {
 
 
 /**
- * Sleep for a specified number of milliseconds
+ * Run a worker over items with at most `limit` in flight, starting them in order
+ * After the first failure no new items start; the ones running are awaited, then it rethrows
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const failures: unknown[] = [];
+
+  const runner = async () => {
+    while (failures.length === 0 && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runner));
+  if (failures.length > 0) throw failures[0];
 }
 
 /**
- * Build an optimized prompt with minimal token usage
- * Uses CSV format and abbreviated JSON keys to reduce cost
+ * Sleep for a specified number of milliseconds
+ * Rejects with the signal's reason as soon as it is aborted
  */
-export function buildOptimizedPrompt(processes: ProcessInfo[]): string {
-  // Create CSV data (name, cpu%, privateMemoryMB)
-  const csvData = processes.map(p => `${p.name},${p.cpu.toFixed(1)},${p.mem.toFixed(0)}`).join('\n');
-
-  return `Act as a Senior Windows System Administrator and Security Analyst. Analyze the following list of active processes to identify performance bottlenecks, bloatware, and security risks.
-
-Input Format: "Process Name, CPU Usage (%), Private Memory (MB)"
-
-**Definitions:**
-- **Private Memory:** The specific RAM unique to this process. High private memory in background tasks often indicates memory leaks or inefficient bloatware.
-
-Instructions:
-1. Identify the specific application or vendor.
-2. **MANDATORY 'KEEP' (k) RULE:**
-   - You MUST set "k":true for ALL Windows Kernel & System processes, including but not limited to: System, Registry, smss.exe, csrss.exe, wininit.exe, services.exe, lsass.exe, svchost.exe, winlogon.exe, dwm.exe, spoolsv.exe, explorer.exe, taskhostw.exe, conhost.exe, sihost.exe, fontdrvhost.exe, Memory Compression.
-   - You MUST set "k":true for active user applications (Browsers, Games, IDEs, Media Players) unless they are frozen/responsive.
-   - Set "k":false ONLY for: Bloatware, background updaters, telemetry agents, malware, and non-essential utilities.
-
-3. Assess Risk Category (r):
-   - **SystemCritical:** ESSENTIAL Windows kernel & OS processes that MUST NEVER be terminated (System, Registry, smss.exe, csrss.exe, wininit.exe, services.exe, lsass.exe, svchost.exe, winlogon.exe, dwm.exe, fontdrvhost.exe, Memory Compression, any process with PID 0 or 4). These are core OS components - terminating them will crash Windows.
-   - **Safe:** Standard user applications (Chrome, Discord, Steam, VS Code, Antigravity) and non-critical Windows utilities. Safe to terminate if needed.
-   - **Bloat:** Pre-installed OEM junk, unnecessary updaters (e.g., Adobe Update Service), telemetry agents. **FLAG AS BLOAT** if a background service is consuming excessive Private Memory (>150MB) without active user interaction.
-   - **Critical:** SECURITY THREATS - malware, miners, trojans, ransomware, or suspicious masquerading processes. These should be terminated immediately.
-   - **Unknown:** Unverified process names that cannot be confidently categorized.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
 
-4. **Resource Analysis:**
-   - Use the **Private Memory** value to determine efficiency. If a simple background utility uses high Private Memory (>100MB), flag it in the description as "Inefficient resource usage".
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
-Return ONLY a JSON array. No markdown.
+/**
+ * Make a free-text value safe for the comma-separated prompt rows
+ */
+function csvField(value: string | undefined): string {
+  return value ? value.replace(/[,\r\n]+/g, ' ') : '';
+}
 
-Format: [{"n":"process_name.exe","r":"SystemCritical|Safe|Bloat|Critical|Unknown","d":"description <400 chars","k":true|false}]
-- n: Exact process name.
-- r: Risk Category (MUST use SystemCritical for essential Windows kernel processes).
-- d: Contextual description. For SystemCritical processes, ALWAYS state "Essential Windows System Process - DO NOT TERMINATE".
-- k: Keep status. true = DO NOT KILL, false = KILL.
+export const PROCESS_COLUMNS = 'Process Name, CPU Usage (%), Private Memory (MB), Network, Executable Path';
 
-Process data:
-${csvData}
+export const DEV_MODE_COLUMNS = 'Process Name, CPU Usage (%), Private Memory (PWS in MB), Total Working Set (WS in MB), PWS Growth (MB/hour), Open Handles, Handle Growth (/hour)';
 
-Return JSON array only:`;
+/**
+ * CSV rows for the standard analysis prompt, one per process (see PROCESS_COLUMNS)
+ */
+export function formatProcessRows(processes: ProcessInfo[]): string {
+  return processes.map(p => `${p.name},${p.cpu.toFixed(1)},${p.mem.toFixed(0)},${formatNetworkSummary(p.net)},${csvField(p.path)}`).join('\n');
 }
 
 /**
- * Build Dev Mode prompt for advanced memory profiling
+ * CSV rows for the Dev Mode prompt, one per process (see DEV_MODE_COLUMNS)
  * Uses dual-metric analysis (PWS + WS) to detect leaks and inefficiencies
  */
-export function buildDevModePrompt(processes: ProcessInfo[]): string {
-  // Create CSV data (name, cpu%, privateMemoryMB, totalWorkingSetMB)
-  const csvData = processes.map(p => {
+export function formatDevModeRows(processes: ProcessInfo[]): string {
+  return processes.map(p => {
     const pws = p.mem.toFixed(0);
     const ws = p.memRss ? p.memRss.toFixed(0) : pws; // Fallback to PWS if WS unavailable
-    return `${p.name},${p.cpu.toFixed(1)},${pws},${ws}`;
+    const growth = p.growthMbPerHour !== undefined ? p.growthMbPerHour.toFixed(1) : ''; // Blank until enough history exists
+    const handles = p.handles !== undefined ? String(p.handles) : '';
+    const handleGrowth = p.handleGrowthPerHour !== undefined ? p.handleGrowthPerHour.toFixed(0) : '';
+    return `${p.name},${p.cpu.toFixed(1)},${pws},${ws},${growth},${handles},${handleGrowth}`;
   }).join('\n');
-
-  return `Act as a Senior Systems Profiler and Kernel Engineer. Analyze the following process memory snapshots to detect leaks, inefficiency, and abnormal shared resource usage.
-
-Input Format: "Process Name, CPU Usage (%), Private Memory (PWS in MB), Total Working Set (WS in MB)"
-
-**Definitions:**
-- **Shared Delta:** (WS - PWS). Represents memory shared with other processes (DLLs, memory-mapped files).
-- **Leak Indicator:** High PWS that grows over time (historical context not provided here, infer from PWS/WS ratio for known app types).
-
-**Instructions:**
-1. **Analyze Efficiency:** Compare PWS vs WS.
-   - If (WS >> PWS) for a non-system app, flag as "High Shared Dependency" (potential unoptimized library usage).
-   - If (PWS ~= WS) for a complex app (like Electron), this is normal.
-2. **Detect Anomalies:**
-   - **Bloated PWS:** Flag simple utilities (Notepad, Calc) with PWS >100MB as "Inefficient/Leak".
-   - **Suspicious Shared Usage:** Flag unknown processes with high Shared Delta as "Potential DLL Injection".
-3. **Generate Technical Recommendation:**
-   - Instead of "Kill/Keep", provide specific debugging advice (e.g., "Check handle release", "Investigate shared library linkage", "Monitor for Paging").
-
-Return ONLY a JSON array.
-
-Format: [{"n":"process_name","type":"Leak|Inefficient|Normal|Suspicious","analysis":"Technical insight <200 chars","recommendation":"Debug action"}]
-
-Process Data:
-${csvData}
-
-Return JSON array only:`;
 }
-
@@ -0,0 +1,59 @@
+import type { AnalysisResult } from '../services/Database.js';
+
+type RiskLevel = AnalysisResult['risk_level'];
+
+// Hours a cached verdict is trusted, per risk level; 0 = never expires
+export type AnalysisTtlConfig = Record<RiskLevel, number>;
+
+// Uncertain and alarming verdicts are re-checked often, OS components rarely
+export const DEFAULT_ANALYSIS_TTL: AnalysisTtlConfig = {
+  Unknown: 24,
+  Critical: 24,
+  Bloat: 7 * 24,
+  Safe: 30 * 24,
+  SystemCritical: 180 * 24
+};
+
+/**
+ * Keep only non-negative hour values from a TTL config coming from settings
+ */
+export function normalizeAnalysisTtl(raw: unknown): AnalysisTtlConfig {
+  const config = typeof raw === 'object' && raw !== null ? raw as Partial<Record<RiskLevel, unknown>> : {};
+  const ttl = { ...DEFAULT_ANALYSIS_TTL };
+  for (const level of Object.keys(ttl) as RiskLevel[]) {
+    const hours = Number(config[level]);
+    if (config[level] !== undefined && Number.isFinite(hours) && hours >= 0) {
+      ttl[level] = hours;
+    }
+  }
+  return ttl;
+}
+
+/**
+ * Epoch ms of a SQLite CURRENT_TIMESTAMP value ('YYYY-MM-DD HH:MM:SS', UTC)
+ */
+export function parseSqliteTimestamp(value: string | undefined): number | null {
+  if (!value) return null;
+  const ms = Date.parse(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * When a cached verdict stops being trusted, or null if it never expires
+ * Rows without a readable timestamp count as expired
+ */
+export function getAnalysisExpiry(analysis: Pick<AnalysisResult, 'risk_level' | 'last_updated'>, ttl: AnalysisTtlConfig): number | null {
+  const hours = ttl[analysis.risk_level] ?? 0;
+  if (hours <= 0) return null;
+  const updated = parseSqliteTimestamp(analysis.last_updated) ?? 0;
+  return updated + hours * 60 * 60 * 1000;
+}
+
+export function isAnalysisStale(
+  analysis: Pick<AnalysisResult, 'risk_level' | 'last_updated'>,
+  ttl: AnalysisTtlConfig,
+  now: number = Date.now()
+): boolean {
+  const expiry = getAnalysisExpiry(analysis, ttl);
+  return expiry !== null && expiry <= now;
+}
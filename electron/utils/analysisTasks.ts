@@ -0,0 +1,188 @@
+import type { AnalysisResult, DevModeAnalysisResult } from '../services/Database.js';
+import { ProcessInfo, PROCESS_COLUMNS, DEV_MODE_COLUMNS, formatProcessRows, formatDevModeRows } from './ProcessUtils.js';
+import { renderPrompt, getTemplateVersion } from '../services/PromptTemplateService.js';
+import type { BatchCostModel } from './llmBatching.js';
+
+/**
+ * One kind of LLM analysis: how to ask and how to read the answer
+ * Providers only return text, so a new analysis type is just a new task
+ */
+export interface AnalysisTask<T extends { process_name: string }> extends BatchCostModel {
+  label?: string; // Shown in logs and provider notifications, e.g. 'Dev Mode'
+  buildPrompt(processes: ProcessInfo[]): string;
+  templateVersion(): string; // Stamped on saved results so a template change can trigger re-analysis
+  parse(text: string): ParsedResults<T>;
+}
+
+/**
+ * A response row that failed schema validation, kept so it can be reported
+ */
+export interface InvalidRow {
+  index: number;   // Position in the response array
+  name?: string;   // Process name, when the row had a usable one
+  errors: string[];
+  raw: string;     // The row as returned, truncated for logs
+}
+
+export interface ParsedResults<T> {
+  results: T[];
+  invalid: InvalidRow[];
+}
+
+type FieldRule =
+  | { type: 'string'; required?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] };
+
+type RowSchema = Record<string, FieldRule>;
+
+const RISK_LEVELS: readonly AnalysisResult['risk_level'][] = ['SystemCritical', 'Safe', 'Bloat', 'Unknown', 'Critical'];
+const DEV_MODE_TYPES: readonly DevModeAnalysisResult['type'][] = ['Leak', 'Inefficient', 'Normal', 'Suspicious'];
+const MAX_RAW_LENGTH = 200;
+
+// Every field is required; 'required' on strings means non-blank. Extra keys are ignored.
+const PROCESS_ROW_SCHEMA: RowSchema = {
+  n: { type: 'string', required: true },
+  r: { type: 'enum', values: RISK_LEVELS },
+  d: { type: 'string', required: true },
+  k: { type: 'boolean' }
+};
+
+const DEV_MODE_ROW_SCHEMA: RowSchema = {
+  n: { type: 'string', required: true },
+  type: { type: 'enum', values: DEV_MODE_TYPES },
+  analysis: { type: 'string', required: true },
+  recommendation: { type: 'string' }
+};
+
+/**
+ * Pull the JSON array out of a model response
+ * Models like to wrap JSON in markdown fences or add a sentence around it
+ */
+export function extractJsonArray(text: string): unknown[] {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  const arrayStart = cleaned.indexOf('[');
+  const arrayEnd = cleaned.lastIndexOf(']');
+
+  if (arrayStart === -1 || arrayEnd === -1 || arrayStart >= arrayEnd) {
+    throw new Error('No valid JSON array found in response');
+  }
+
+  const jsonStr = cleaned.substring(arrayStart, arrayEnd + 1);
+
+  try {
+    const data = JSON.parse(jsonStr);
+    if (!Array.isArray(data)) throw new Error('Response JSON is not an array');
+    return data;
+  } catch (e) {
+    console.error('Failed to parse response:', jsonStr);
+    throw new Error('Failed to parse JSON response');
+  }
+}
+
+/**
+ * Check one response row against a schema, returning every problem found
+ */
+function validateRow(item: unknown, schema: RowSchema): string[] {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return ['row is not an object'];
+  }
+
+  const row = item as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const value = row[key];
+    if (value === undefined || value === null) {
+      errors.push(`"${key}" is missing`);
+      continue;
+    }
+
+    switch (rule.type) {
+      case 'string':
+        if (typeof value !== 'string') errors.push(`"${key}" must be a string`);
+        else if (rule.required && value.trim() === '') errors.push(`"${key}" must not be empty`);
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') errors.push(`"${key}" must be true or false`);
+        break;
+      case 'enum':
+        if (typeof value !== 'string' || !rule.values.includes(value)) {
+          errors.push(`"${key}" must be one of ${rule.values.join('|')} (got ${JSON.stringify(value)})`);
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate every row of a response and map the valid ones to results
+ * A bad row never fails the whole response, it is collected in `invalid` instead
+ */
+function parseRows<T>(text: string, schema: RowSchema, toResult: (row: Record<string, unknown>) => T): ParsedResults<T> {
+  const data = extractJsonArray(text);
+  const results: T[] = [];
+  const invalid: InvalidRow[] = [];
+
+  data.forEach((item, index) => {
+    const errors = validateRow(item, schema);
+    if (errors.length === 0) {
+      results.push(toResult(item as Record<string, unknown>));
+      return;
+    }
+
+    const name = (item as { n?: unknown } | null)?.n;
+    const raw = JSON.stringify(item) ?? String(item);
+    invalid.push({
+      index,
+      name: typeof name === 'string' && name.trim() ? name : undefined,
+      errors,
+      raw: raw.length > MAX_RAW_LENGTH ? `${raw.slice(0, MAX_RAW_LENGTH)}…` : raw
+    });
+  });
+
+  return { results, invalid };
+}
+
+export function describeInvalidRow(row: InvalidRow): string {
+  return `Row ${row.index + 1}${row.name ? ` (${row.name})` : ''}: ${row.errors.join('; ')}`;
+}
+
+/**
+ * Follow-up message asking the model to fix its own answer
+ * Sent after the original prompt and the faulty response, so the format is still in context
+ */
+export function buildRepairPrompt(problems: string[]): string {
+  return `Your response did not match the required format:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Return the complete corrected JSON array, with exactly one entry per input row, in input order. Use only the allowed values. No markdown.`;
+}
+
+export const processAnalysisTask: AnalysisTask<AnalysisResult> = {
+  buildPrompt: processes => renderPrompt('standard', PROCESS_COLUMNS, formatProcessRows(processes), processes.length),
+  templateVersion: () => getTemplateVersion('standard'),
+  outputTokensPerProcess: 140, // Description up to 400 chars plus the JSON around it
+  parse: (text) => parseRows(text, PROCESS_ROW_SCHEMA, row => ({
+    process_name: row.n as string,
+    risk_level: row.r as AnalysisResult['risk_level'],
+    description: row.d as string,
+    recommendation: row.k ? 'Keep - Required for system' : 'Safe to terminate'
+  }))
+};
+
+export const devModeAnalysisTask: AnalysisTask<DevModeAnalysisResult> = {
+  label: 'Dev Mode',
+  buildPrompt: processes => renderPrompt('devmode', DEV_MODE_COLUMNS, formatDevModeRows(processes), processes.length),
+  templateVersion: () => getTemplateVersion('devmode'),
+  outputTokensPerProcess: 110, // Analysis up to 200 chars, a short recommendation and the JSON around it
+  parse: (text) => parseRows(text, DEV_MODE_ROW_SCHEMA, row => ({
+    process_name: row.n as string,
+    type: row.type as DevModeAnalysisResult['type'],
+    analysis: row.analysis as string,
+    recommendation: row.recommendation as string
+  }))
+};
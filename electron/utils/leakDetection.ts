@@ -0,0 +1,169 @@
+export interface TrendPoint {
+  ts: number;    // epoch ms
+  value: number; // MB for memory, a count for handles
+}
+
+export interface LeakVerdict {
+  isLeak: boolean;
+  confidence: number;      // 0..1
+  growthMbPerHour: number; // Robust slope of private memory
+  rSquared: number;
+  monotonicity: number;    // Share of non-decreasing steps
+  sampleCount: number;
+  windowMinutes: number;   // Time span actually covered by the samples
+}
+
+/** Same fit over open handle / file descriptor counts */
+export interface HandleLeakVerdict extends Omit<LeakVerdict, 'growthMbPerHour'> {
+  growthPerHour: number;   // Handles per hour
+}
+
+export interface LeakDetectionOptions {
+  minSamples?: number;
+  minWindowMinutes?: number;
+  minGrowthPerHour?: number; // In the series' unit (MB for memory)
+  minConfidence?: number;
+  maxPoints?: number;
+}
+
+export const DEFAULT_LEAK_OPTIONS: Required<LeakDetectionOptions> = {
+  minSamples: 10,
+  minWindowMinutes: 10,
+  minGrowthPerHour: 10,
+  minConfidence: 0.6,
+  maxPoints: 60 // Theil-Sen is O(n²), so long series are thinned first
+};
+
+export const DEFAULT_HANDLE_LEAK_OPTIONS: Required<LeakDetectionOptions> = {
+  ...DEFAULT_LEAK_OPTIONS,
+  minGrowthPerHour: 60,
+  minConfidence: 0.7 // Counts move in steps, so demand a cleaner climb
+};
+
+/**
+ * Fit a robust trend over a process's private memory samples and decide whether it leaks.
+ * Uses the Theil-Sen estimator (median of pairwise slopes) so single spikes don't dominate,
+ * then scores the fit by R² and how consistently the series climbs.
+ * @returns null when there is not enough history to judge
+ */
+export function detectLeak(points: TrendPoint[], options: LeakDetectionOptions = {}): LeakVerdict | null {
+  const verdict = fitGrowth(points, { ...DEFAULT_LEAK_OPTIONS, ...options });
+  if (!verdict) return null;
+
+  const { growthPerHour, ...rest } = verdict;
+  return { ...rest, growthMbPerHour: growthPerHour };
+}
+
+/**
+ * Same test over open handle / file descriptor counts
+ */
+export function detectHandleLeak(points: TrendPoint[], options: LeakDetectionOptions = {}): HandleLeakVerdict | null {
+  return fitGrowth(points, { ...DEFAULT_HANDLE_LEAK_OPTIONS, ...options });
+}
+
+function fitGrowth(points: TrendPoint[], opts: Required<LeakDetectionOptions>): HandleLeakVerdict | null {
+  if (points.length < opts.minSamples) {
+    return null;
+  }
+
+  const sorted = [...points].sort((a, b) => a.ts - b.ts);
+  const windowMinutes = (sorted[sorted.length - 1].ts - sorted[0].ts) / 60000;
+
+  if (windowMinutes < opts.minWindowMinutes) {
+    return null;
+  }
+
+  const thinned = thinPoints(sorted, opts.maxPoints);
+  const t0 = thinned[0].ts;
+  const xs = thinned.map(p => (p.ts - t0) / 3600000); // hours
+  const ys = thinned.map(p => p.value);
+
+  const slope = theilSenSlope(xs, ys);
+  const intercept = median(ys.map((y, i) => y - slope * xs[i]));
+  const rSquared = coefficientOfDetermination(xs, ys, slope, intercept);
+  const monotonicity = nonDecreasingShare(ys);
+
+  // A flat series fits any line perfectly, so confidence only counts for growth
+  const confidence = slope > 0 ? clamp(rSquared * monotonicity, 0, 1) : 0;
+
+  return {
+    isLeak: slope >= opts.minGrowthPerHour && confidence >= opts.minConfidence,
+    confidence,
+    growthPerHour: slope,
+    rSquared,
+    monotonicity,
+    sampleCount: points.length,
+    windowMinutes
+  };
+}
+
+/**
+ * Median of the slopes between every pair of points
+ */
+export function theilSenSlope(xs: number[], ys: number[]): number {
+  const slopes: number[] = [];
+
+  for (let i = 0; i < xs.length; i++) {
+    for (let j = i + 1; j < xs.length; j++) {
+      const dx = xs[j] - xs[i];
+      if (dx !== 0) {
+        slopes.push((ys[j] - ys[i]) / dx);
+      }
+    }
+  }
+
+  return slopes.length > 0 ? median(slopes) : 0;
+}
+
+function coefficientOfDetermination(xs: number[], ys: number[], slope: number, intercept: number): number {
+  const mean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let ssRes = 0;
+  let ssTot = 0;
+
+  for (let i = 0; i < ys.length; i++) {
+    const predicted = slope * xs[i] + intercept;
+    ssRes += (ys[i] - predicted) ** 2;
+    ssTot += (ys[i] - mean) ** 2;
+  }
+
+  if (ssTot === 0) {
+    return ssRes === 0 ? 1 : 0;
+  }
+
+  return clamp(1 - ssRes / ssTot, 0, 1);
+}
+
+function nonDecreasingShare(ys: number[]): number {
+  if (ys.length < 2) return 0;
+
+  let nonDecreasing = 0;
+  for (let i = 1; i < ys.length; i++) {
+    if (ys[i] >= ys[i - 1]) nonDecreasing++;
+  }
+
+  return nonDecreasing / (ys.length - 1);
+}
+
+/**
+ * Evenly pick at most maxPoints points, always keeping the first and last
+ */
+function thinPoints(points: TrendPoint[], maxPoints: number): TrendPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const thinned: TrendPoint[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    thinned.push(points[Math.round(i * step)]);
+  }
+  return thinned;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -1,31 +1,95 @@
 import { ProcessInfo } from './ProcessUtils.js';
+import type { TokenBudget } from './providerChain.js';
 
-export const TARGET_BATCH_SIZE = 32;
+// Upper bound even when the budget allows more, long answers lose accuracy towards the end
+export const MAX_BATCH_SIZE = 64;
+
+// Process names, paths and JSON tokenize worse than prose, so err on the small side
+const CHARS_PER_TOKEN = 3.5;
+
+// Estimates are rough, leave headroom below the configured limits
+const BUDGET_SAFETY = 0.8;
+
+/**
+ * What packing needs to know about a prompt: its fixed cost and what each row adds
+ */
+export interface BatchCostModel {
+  buildPrompt(processes: ProcessInfo[]): string;
+  outputTokensPerProcess: number; // Expected answer size for one process
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
 
 /**
- * Distributes a list of processes evenly into an array of smaller arrays (batches).
+ * Packs processes into batches that fit the model's token budget.
+ * Prompt cost is measured on the real prompt (instructions once, plus one CSV row per
+ * process), answer cost is the task's per-process estimate. The answer has to fit
+ * both the output limit and, together with the prompt, the context window.
  * @param processes - The array of uncached processes to be analyzed.
- * @returns An array of batches, where each batch is an array of ProcessItem.
+ * @returns An array of batches in input order; a process too big for any batch goes alone.
  */
-export function createProcessBatches(processes: ProcessInfo[]): ProcessInfo[][] {
+export function createProcessBatches(processes: ProcessInfo[], cost: BatchCostModel, budget: TokenBudget): ProcessInfo[][] {
   if (processes.length === 0) {
     return [];
   }
 
-  // Calculate the number of batches needed to maintain the target batch size
-  const numBatches = Math.ceil(processes.length / TARGET_BATCH_SIZE);
+  const baseTokens = estimateTokens(cost.buildPrompt([]));
+  const rows = processes.map(process => ({
+    process,
+    tokens: estimateTokens(cost.buildPrompt([process])) - baseTokens
+  }));
 
-  const batches: ProcessInfo[][] = [];
-  
-  for (let i = 0; i < numBatches; i++) {
-    batches.push([]);
+  // Pack greedily to learn how many batches are needed, then again with an even size
+  // cap so the last batch isn't a handful of leftovers
+  const greedy = packBatches(rows, baseTokens, cost.outputTokensPerProcess, budget, MAX_BATCH_SIZE);
+  if (greedy.length === 1) {
+    return greedy;
   }
+  return packBatches(rows, baseTokens, cost.outputTokensPerProcess, budget, Math.ceil(processes.length / greedy.length));
+}
 
-  // Distribute processes round-robin style to ensure evenness
-  processes.forEach((process, index) => {
-    const batchIndex = index % numBatches;
-    batches[batchIndex].push(process);
-  });
+function packBatches(
+  rows: Array<{ process: ProcessInfo; tokens: number }>,
+  baseTokens: number,
+  outputPerProcess: number,
+  budget: TokenBudget,
+  maxSize: number
+): ProcessInfo[][] {
+  const contextLimit = budget.contextTokens * BUDGET_SAFETY;
+  const outputLimit = budget.maxOutputTokens * BUDGET_SAFETY;
 
+  const batches: ProcessInfo[][] = [];
+  let current: ProcessInfo[] = [];
+  let inputTokens = baseTokens;
+  let outputTokens = 0;
+
+  for (const { process, tokens } of rows) {
+    const fits = current.length < maxSize &&
+      outputTokens + outputPerProcess <= outputLimit &&
+      inputTokens + tokens + outputTokens + outputPerProcess <= contextLimit;
+
+    if (!fits && current.length > 0) {
+      batches.push(current);
+      current = [];
+      inputTokens = baseTokens;
+      outputTokens = 0;
+    }
+
+    current.push(process);
+    inputTokens += tokens;
+    outputTokens += outputPerProcess;
+  }
+
+  batches.push(current);
   return batches;
 }
+
+/**
+ * Halve a batch after the provider rejected it as too long
+ */
+export function splitBatch(processes: ProcessInfo[]): [ProcessInfo[], ProcessInfo[]] {
+  const half = Math.ceil(processes.length / 2);
+  return [processes.slice(0, half), processes.slice(half)];
+}
@@ -0,0 +1,132 @@
+/** Shape of a systeminformation networkConnections() entry */
+export interface RawConnection {
+  protocol: string;
+  localAddress: string;
+  localPort: string;
+  peerAddress: string;
+  peerPort: string;
+  state: string;
+  pid: number;
+}
+
+export interface ProcessConnection {
+  protocol: string;      // tcp, tcp6, udp, udp6
+  localAddress: string;
+  localPort: number | null;
+  peerAddress: string;
+  peerPort: number | null;
+  state: string;         // LISTEN, ESTABLISHED, ... (empty for UDP)
+  listening: boolean;
+  loopback: boolean;     // Peer is on this machine
+}
+
+export interface NetworkSummary {
+  listeningPorts: number[]; // Sorted, unique
+  established: number;      // Connections with a peer
+  remoteHosts: number;      // Distinct non-loopback peer addresses
+}
+
+const WILDCARD_ADDRESSES = new Set(['', '*', '0.0.0.0', '::', '[::]']);
+const MAX_PROMPT_PORTS = 8;
+
+function parsePort(port: string): number | null {
+  const value = parseInt(port, 10);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function isLoopback(address: string): boolean {
+  return address.startsWith('127.') || address === '::1' || address === 'localhost' || address.startsWith('::ffff:127.');
+}
+
+/**
+ * Normalize raw socket entries and group them by owning PID.
+ * Sockets whose owner could not be resolved (pid 0 or missing) are dropped.
+ */
+export function groupConnectionsByPid(raw: RawConnection[]): Map<number, ProcessConnection[]> {
+  const byPid = new Map<number, ProcessConnection[]>();
+
+  for (const entry of raw) {
+    if (!entry.pid) continue;
+
+    const state = (entry.state || '').toUpperCase();
+    const hasPeer = !WILDCARD_ADDRESSES.has(entry.peerAddress || '');
+    const isUdp = entry.protocol.toLowerCase().startsWith('udp');
+
+    const connection: ProcessConnection = {
+      protocol: entry.protocol,
+      localAddress: entry.localAddress,
+      localPort: parsePort(entry.localPort),
+      peerAddress: hasPeer ? entry.peerAddress : '',
+      peerPort: hasPeer ? parsePort(entry.peerPort) : null,
+      state,
+      // UDP has no LISTEN state, an unconnected bound socket is the equivalent
+      listening: state === 'LISTEN' || (isUdp && !hasPeer),
+      loopback: hasPeer && isLoopback(entry.peerAddress)
+    };
+
+    const list = byPid.get(entry.pid);
+    if (list) {
+      list.push(connection);
+    } else {
+      byPid.set(entry.pid, [connection]);
+    }
+  }
+
+  return byPid;
+}
+
+export function summarizeConnections(connections: ProcessConnection[]): NetworkSummary {
+  const ports = new Set<number>();
+  const hosts = new Set<string>();
+  let established = 0;
+
+  for (const c of connections) {
+    if (c.listening) {
+      if (c.localPort !== null) ports.add(c.localPort);
+      continue;
+    }
+    if (c.peerAddress) {
+      established++;
+      if (!c.loopback) hosts.add(c.peerAddress);
+    }
+  }
+
+  return {
+    listeningPorts: Array.from(ports).sort((a, b) => a - b),
+    established,
+    remoteHosts: hosts.size
+  };
+}
+
+/**
+ * Merge the summaries of several instances of one application
+ */
+export function mergeNetworkSummaries(a: NetworkSummary | undefined, b: NetworkSummary | undefined): NetworkSummary | undefined {
+  if (!a) return b;
+  if (!b) return a;
+
+  return {
+    listeningPorts: Array.from(new Set([...a.listeningPorts, ...b.listeningPorts])).sort((x, y) => x - y),
+    established: a.established + b.established,
+    remoteHosts: a.remoteHosts + b.remoteHosts // Upper bound, hosts may overlap between instances
+  };
+}
+
+/**
+ * Compact, comma-free network column for the LLM prompts, e.g. "listen 80 443; 3 remote"
+ */
+export function formatNetworkSummary(summary: NetworkSummary | undefined): string {
+  if (!summary) return '';
+
+  const parts: string[] = [];
+  if (summary.listeningPorts.length > 0) {
+    const shown = summary.listeningPorts.slice(0, MAX_PROMPT_PORTS).join(' ');
+    const more = summary.listeningPorts.length - MAX_PROMPT_PORTS;
+    parts.push(`listen ${shown}${more > 0 ? ` +${more}` : ''}`);
+  }
+  if (summary.remoteHosts > 0) {
+    parts.push(`${summary.remoteHosts} remote`);
+  }
+
+  return parts.length > 0 ? parts.join('; ') : 'none';
+}
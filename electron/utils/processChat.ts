@@ -0,0 +1,138 @@
+import type { AnalysisResult, DevModeAnalysisResult, ProcessSample } from '../services/Database.js';
+import type { EnrichedProcess } from '../services/ProcessCollector.js';
+import type { ChatMessage } from '../services/middleware/AIProvider.js';
+import { formatNetworkSummary } from './networkConnections.js';
+import { estimateTokens } from './llmBatching.js';
+
+// Room left for the answer when fitting a conversation into the context window
+export const CHAT_OUTPUT_TOKENS = 1024;
+
+// Questions longer than this are rejected rather than silently cut
+export const MAX_QUESTION_LENGTH = 2000;
+
+/**
+ * What the recorded history says about a process, in the units the prompt uses
+ */
+export interface HistorySummary {
+  windowMinutes: number;
+  sampleCount: number;
+  memoryMetric: 'private' | 'RSS'; // Private memory when every sample has it
+  memoryMb: { first: number; last: number; min: number; max: number };
+  cpu: { avg: number; max: number };
+  handles?: { first: number; last: number };
+}
+
+export interface ProcessChatContext {
+  osName: string;
+  process: EnrichedProcess;
+  analysis?: AnalysisResult;
+  devAnalysis?: DevModeAnalysisResult;
+  history: HistorySummary | null;
+}
+
+export function summarizeHistory(samples: ProcessSample[]): HistorySummary | null {
+  if (samples.length === 0) return null;
+
+  // One metric for the whole window, mixing them would look like growth
+  const usePrivate = samples.every(s => s.private_mem !== null);
+  const memory = samples.map(s => (usePrivate ? s.private_mem ?? 0 : s.mem_rss) / (1024 * 1024));
+  const cpu = samples.map(s => s.cpu);
+  const handles = samples.map(s => s.handles).filter((h): h is number => h !== null);
+
+  return {
+    windowMinutes: (samples[samples.length - 1].ts - samples[0].ts) / 60000,
+    sampleCount: samples.length,
+    memoryMetric: usePrivate ? 'private' : 'RSS',
+    memoryMb: {
+      first: memory[0],
+      last: memory[memory.length - 1],
+      min: Math.min(...memory),
+      max: Math.max(...memory)
+    },
+    cpu: { avg: cpu.reduce((sum, v) => sum + v, 0) / cpu.length, max: Math.max(...cpu) },
+    handles: handles.length > 0 ? { first: handles[0], last: handles[handles.length - 1] } : undefined
+  };
+}
+
+/**
+ * System prompt grounding the conversation in the process's current state
+ * Rebuilt for every question so answers use the latest metrics, not the ones from when the chat started
+ */
+export function buildChatSystemPrompt(ctx: ProcessChatContext): string {
+  const p = ctx.process;
+  const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  const lines: string[] = [
+    `You are a ${ctx.osName} systems and security expert helping a user understand one running process.`,
+    'Answer from the data below and general knowledge of the program. Say so when the data cannot answer the question; never invent measurements.',
+    'Be concise and practical. When asked whether it is safe to terminate, weigh what depends on it and what the user is doing.',
+    '',
+    '## Process',
+    `- Name: ${p.name} (PID ${p.pid}, user ${p.user || 'unknown'})`,
+    `- Executable: ${p.exePath || 'unknown'}`
+  ];
+
+  if (p.commandLine) lines.push(`- Command line: ${p.commandLine.slice(0, 500)}`);
+  lines.push(`- CPU: ${p.cpu.toFixed(1)}%`);
+  lines.push(`- Memory: ${p.privateMemory !== undefined ? `${p.privateMemory.toFixed(0)} MB private, ` : ''}${mb(p.memRss)} working set (RSS), ${mb(p.memVirtual)} virtual`);
+  if (p.memSwap !== undefined) lines.push(`- Swapped out: ${mb(p.memSwap)}`);
+  if (p.handles !== undefined || p.threads !== undefined) {
+    lines.push(`- Open handles: ${p.handles ?? 'unknown'}, threads: ${p.threads ?? 'unknown'}`);
+  }
+  if (p.subtree && p.subtree.count > 1) {
+    lines.push(`- Process tree: ${p.subtree.count} processes, ${mb(p.subtree.memRss)} total`);
+  }
+  lines.push(`- Network: ${formatNetworkSummary(p.net) || 'no open sockets'}`);
+  if (p.findings) {
+    lines.push(...p.findings.map(f => `- Local rule (${f.severity}): ${f.message}`));
+  }
+
+  if (ctx.history) {
+    const h = ctx.history;
+    lines.push(
+      '',
+      `## History (last ${h.windowMinutes.toFixed(0)} min, ${h.sampleCount} samples)`,
+      `- Memory (${h.memoryMetric}): ${h.memoryMb.first.toFixed(0)} → ${h.memoryMb.last.toFixed(0)} MB (min ${h.memoryMb.min.toFixed(0)}, max ${h.memoryMb.max.toFixed(0)})`,
+      `- CPU: avg ${h.cpu.avg.toFixed(1)}%, max ${h.cpu.max.toFixed(1)}%`
+    );
+    if (h.handles) lines.push(`- Handles: ${h.handles.first} → ${h.handles.last}`);
+  }
+  if (p.leak) {
+    lines.push(`- Memory trend: ${p.leak.growthMbPerHour.toFixed(1)} MB/h over ${p.leak.windowMinutes.toFixed(0)} min${p.leak.isLeak ? ' (flagged as a leak)' : ''}`);
+  }
+  if (p.handleLeak) {
+    lines.push(`- Handle trend: ${p.handleLeak.growthPerHour.toFixed(0)}/h${p.handleLeak.isLeak ? ' (flagged as a handle leak)' : ''}`);
+  }
+
+  if (ctx.analysis || ctx.devAnalysis) {
+    lines.push('', '## Earlier AI analysis');
+    if (ctx.analysis) {
+      lines.push(`- Verdict: ${ctx.analysis.risk_level}. ${ctx.analysis.description} (${ctx.analysis.recommendation}; from ${ctx.analysis.last_updated ?? 'unknown date'} UTC)`);
+    }
+    if (ctx.devAnalysis) {
+      lines.push(`- Memory profile: ${ctx.devAnalysis.type}. ${ctx.devAnalysis.analysis} Recommendation: ${ctx.devAnalysis.recommendation}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * System prompt plus as much of the transcript as fits, newest turns first
+ * The latest question is always kept; older turns are dropped from the front in whole messages
+ */
+export function fitConversation(system: string, transcript: ChatMessage[], contextTokens: number): ChatMessage[] {
+  let budget = contextTokens - CHAT_OUTPUT_TOKENS - estimateTokens(system);
+  const kept: ChatMessage[] = [];
+
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(transcript[i].content);
+    if (kept.length > 0 && cost > budget) break;
+    kept.unshift(transcript[i]);
+    budget -= cost;
+  }
+
+  // Providers expect the conversation to open with a user turn
+  while (kept.length > 1 && kept[0].role !== 'user') kept.shift();
+
+  return [{ role: 'system', content: system }, ...kept];
+}
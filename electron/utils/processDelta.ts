@@ -0,0 +1,132 @@
+export const PROCESS_PROTOCOL_VERSION = 1;
+
+export interface ProcessKey {
+  pid: number;
+}
+
+export interface ProcessRecord extends ProcessKey {
+  [field: string]: unknown;
+}
+
+export interface ProcessSnapshotMessage<T extends ProcessKey = ProcessRecord> {
+  version: number;
+  type: 'snapshot';
+  seq: number;
+  processes: T[];
+}
+
+export interface ProcessPatch {
+  pid: number;
+  set: Record<string, unknown>; // Fields whose value changed
+  unset?: string[];             // Fields that no longer exist
+}
+
+export interface ProcessDeltaMessage<T extends ProcessKey = ProcessRecord> {
+  version: number;
+  type: 'delta';
+  seq: number; // Always previous seq + 1, a gap means the receiver must resync
+  added: T[];
+  removed: number[];
+  changed: ProcessPatch[];
+}
+
+export type ProcessesUpdateMessage<T extends ProcessKey = ProcessRecord> = ProcessSnapshotMessage<T> | ProcessDeltaMessage<T>;
+
+/**
+ * Turns successive full process lists into one snapshot followed by deltas.
+ * Only the fields that changed since the previous tick are sent for each PID.
+ */
+export class ProcessDeltaEncoder<T extends ProcessKey = ProcessRecord> {
+  private previous = new Map<number, T>();
+  private seq = 0;
+  private hasBaseline = false;
+
+  /**
+   * Encode the next tick: a snapshot the first time, a delta afterwards
+   */
+  encode(processes: T[]): ProcessesUpdateMessage<T> {
+    const next = new Map<number, T>();
+    for (const p of processes) {
+      next.set(p.pid, p);
+    }
+
+    if (!this.hasBaseline) {
+      this.previous = next;
+      this.hasBaseline = true;
+      return this.snapshot();
+    }
+
+    const added: T[] = [];
+    const changed: ProcessPatch[] = [];
+    const removed: number[] = [];
+
+    for (const [pid, current] of next) {
+      const before = this.previous.get(pid);
+      if (!before) {
+        added.push(current);
+        continue;
+      }
+
+      const patch = diffRecords(before, current);
+      if (patch) changed.push(patch);
+    }
+
+    for (const pid of this.previous.keys()) {
+      if (!next.has(pid)) removed.push(pid);
+    }
+
+    this.previous = next;
+    this.seq++;
+
+    return { version: PROCESS_PROTOCOL_VERSION, type: 'delta', seq: this.seq, added, removed, changed };
+  }
+
+  /**
+   * Full state at the current sequence number (initial send and resync requests)
+   */
+  snapshot(): ProcessSnapshotMessage<T> {
+    return {
+      version: PROCESS_PROTOCOL_VERSION,
+      type: 'snapshot',
+      seq: this.seq,
+      processes: Array.from(this.previous.values())
+    };
+  }
+
+  reset() {
+    this.previous.clear();
+    this.hasBaseline = false;
+  }
+}
+
+function diffRecords(beforeRecord: ProcessKey, currentRecord: ProcessKey): ProcessPatch | null {
+  const before = beforeRecord as ProcessRecord;
+  const current = currentRecord as ProcessRecord;
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  let hasChanges = false;
+
+  for (const key of Object.keys(current)) {
+    if (!sameValue(before[key], current[key])) {
+      set[key] = current[key];
+      hasChanges = true;
+    }
+  }
+
+  for (const key of Object.keys(before)) {
+    if (!(key in current)) {
+      unset.push(key);
+      hasChanges = true;
+    }
+  }
+
+  if (!hasChanges) return null;
+  return unset.length > 0 ? { pid: current.pid, set, unset } : { pid: current.pid, set };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  // Nested values (analysis, leak, subtree) are small plain objects
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,206 @@
+import type { AnalysisResult } from '../services/Database.js';
+
+export type RuleSeverity = 'critical' | 'warning';
+
+export interface RuleFinding {
+  rule: string;      // Stable rule id, e.g. 'system-name-wrong-path'
+  severity: RuleSeverity;
+  message: string;
+}
+
+export interface RuleInput {
+  pid: number;
+  name: string;
+  user?: string;
+  exePath?: string;
+  exeDeleted?: boolean;
+}
+
+export interface RuleContext {
+  platform: NodeJS.Platform;
+  systemRoot: string; // %SystemRoot% on Windows, unused elsewhere
+}
+
+interface ProcessRule {
+  id: string;
+  severity: RuleSeverity;
+  check(p: RuleInput, context: RuleContext): string | null; // Finding message, null when the rule passes
+}
+
+// Where genuine OS binaries live. Directories are relative to %SystemRoot% on Windows.
+const WINDOWS_SYSTEM_BINARIES: Record<string, string[]> = {
+  'smss.exe': ['System32'],
+  'csrss.exe': ['System32'],
+  'wininit.exe': ['System32'],
+  'winlogon.exe': ['System32'],
+  'services.exe': ['System32'],
+  'lsass.exe': ['System32'],
+  'lsaiso.exe': ['System32'],
+  'svchost.exe': ['System32', 'SysWOW64'],
+  'dwm.exe': ['System32'],
+  'spoolsv.exe': ['System32'],
+  'taskhostw.exe': ['System32'],
+  'sihost.exe': ['System32'],
+  'fontdrvhost.exe': ['System32'],
+  'conhost.exe': ['System32'],
+  'dllhost.exe': ['System32', 'SysWOW64'],
+  'rundll32.exe': ['System32', 'SysWOW64'],
+  'ctfmon.exe': ['System32', 'SysWOW64'],
+  'explorer.exe': ['']
+};
+
+// Keyed by process name as the kernel reports it (comm, cut to 15 characters)
+const LINUX_SYSTEM_BINARIES: Record<string, string[]> = {
+  'systemd': ['/usr/lib/systemd/', '/lib/systemd/'],
+  'systemd-journal': ['/usr/lib/systemd/', '/lib/systemd/'],
+  'systemd-logind': ['/usr/lib/systemd/', '/lib/systemd/'],
+  'systemd-udevd': ['/usr/lib/systemd/', '/lib/systemd/', '/usr/bin/', '/bin/'],
+  'sshd': ['/usr/sbin/', '/usr/local/sbin/'],
+  'cron': ['/usr/sbin/'],
+  'crond': ['/usr/sbin/'],
+  'dbus-daemon': ['/usr/bin/', '/bin/'],
+  'polkitd': ['/usr/lib/polkit-1/', '/usr/libexec/'],
+  'rsyslogd': ['/usr/sbin/']
+};
+
+// Daemons that only ever run as root (unlike sshd, dbus-daemon or systemd, which also run per user)
+const LINUX_ROOT_DAEMONS = new Set(['systemd-journal', 'systemd-udevd', 'systemd-logind', 'cron', 'crond']);
+
+// Windows session and service infrastructure only ever runs as LocalSystem
+const WINDOWS_SYSTEM_ACCOUNT_BINARIES = new Set(['smss.exe', 'csrss.exe', 'wininit.exe', 'winlogon.exe', 'services.exe', 'lsass.exe']);
+const SYSTEM_ACCOUNTS = new Set(['system', 'nt authority\\system']);
+
+// Locations malware is typically dropped into and executed from
+const UNIX_SUSPICIOUS_DIRS = ['/tmp/', '/var/tmp/', '/dev/shm/', '/private/tmp/', '/private/var/folders/', '/var/folders/'];
+const WINDOWS_SUSPICIOUS_DIRS = ['\\appdata\\local\\temp\\', '\\windows\\temp\\', '\\$recycle.bin\\', '\\users\\public\\', '\\downloads\\'];
+
+const RULES: ProcessRule[] = [
+  {
+    id: 'system-name-wrong-path',
+    severity: 'critical',
+    check: (p, context) => {
+      const exePath = p.exePath;
+      if (!exePath) return null;
+
+      if (context.platform === 'win32') {
+        const dirs = WINDOWS_SYSTEM_BINARIES[p.name.toLowerCase()];
+        if (!dirs) return null;
+        const expected = dirs.map(dir => windowsJoin(context.systemRoot, dir, p.name).toLowerCase());
+        if (expected.includes(normalizeWindowsPath(exePath).toLowerCase())) return null;
+        return `System process name running from ${exePath}, expected ${windowsJoin(context.systemRoot, dirs[0], p.name)}`;
+      }
+
+      if (context.platform === 'linux') {
+        const dirs = LINUX_SYSTEM_BINARIES[p.name];
+        if (!dirs || dirs.some(dir => exePath.startsWith(dir))) return null;
+        return `System daemon name running from ${exePath}, expected under ${dirs.join(' or ')}`;
+      }
+
+      return null;
+    }
+  },
+  {
+    id: 'system-name-wrong-user',
+    severity: 'critical',
+    check: (p, context) => {
+      // The owner is unknown on Windows unless PowerShell runs elevated, so only judge known users
+      if (!p.user) return null;
+
+      if (context.platform === 'win32') {
+        if (!WINDOWS_SYSTEM_ACCOUNT_BINARIES.has(p.name.toLowerCase())) return null;
+        if (SYSTEM_ACCOUNTS.has(p.user.toLowerCase())) return null;
+        return `${p.name} normally runs as SYSTEM but is running as ${p.user}`;
+      }
+
+      if (context.platform === 'linux') {
+        if (!LINUX_ROOT_DAEMONS.has(p.name) || p.user === 'root') return null;
+        return `${p.name} normally runs as root but is running as ${p.user}`;
+      }
+
+      return null;
+    }
+  },
+  {
+    id: 'deleted-executable',
+    severity: 'warning',
+    check: p => {
+      if (!p.exeDeleted) return null;
+      // Also happens legitimately after a package upgrade until the process restarts
+      return `Executable ${p.exePath} was deleted from disk while the process is still running`;
+    }
+  },
+  {
+    id: 'temp-or-downloads-exec',
+    severity: 'warning',
+    check: (p, context) => {
+      const exePath = p.exePath;
+      if (!exePath) return null;
+
+      const suspicious = context.platform === 'win32'
+        ? WINDOWS_SUSPICIOUS_DIRS.some(dir => normalizeWindowsPath(exePath).toLowerCase().includes(dir))
+        : UNIX_SUSPICIOUS_DIRS.some(dir => exePath.startsWith(dir)) || exePath.toLowerCase().includes('/downloads/');
+      return suspicious ? `Running from a temporary or downloads folder (${exePath})` : null;
+    }
+  }
+];
+
+export function defaultRuleContext(): RuleContext {
+  return {
+    platform: process.platform,
+    systemRoot: process.env.SystemRoot || 'C:\\Windows'
+  };
+}
+
+/**
+ * Run every rule against one process
+ * @returns Findings, critical ones first; empty when nothing is suspicious
+ */
+export function evaluateProcessRules(p: RuleInput, context: RuleContext = defaultRuleContext()): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+
+  for (const rule of RULES) {
+    const message = rule.check(p, context);
+    if (message) findings.push({ rule: rule.id, severity: rule.severity, message });
+  }
+
+  return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
+
+/**
+ * Let critical rule findings override the AI's risk level.
+ * Deterministic evidence of masquerading beats a verdict the model gave for the name alone;
+ * the AI's own level is kept in ai_risk_level so the UI can show both.
+ * Warnings only annotate (they travel on the process as findings).
+ */
+export function applyRuleFindings(
+  analysis: AnalysisResult | undefined,
+  findings: RuleFinding[],
+  processName: string
+): AnalysisResult | undefined {
+  const critical = findings.filter(f => f.severity === 'critical');
+  if (critical.length === 0) {
+    return analysis;
+  }
+
+  const evidence = critical.map(f => f.message).join('. ');
+
+  return {
+    process_name: processName,
+    risk_level: 'Critical',
+    description: analysis ? `${evidence}. AI verdict was ${analysis.risk_level}: ${analysis.description}` : evidence,
+    recommendation: 'Investigate and terminate unless this binary is known to be legitimate',
+    last_updated: analysis?.last_updated,
+    stale: analysis?.stale,
+    ai_risk_level: analysis?.risk_level,
+    source: 'rules'
+  };
+}
+
+function normalizeWindowsPath(path: string): string {
+  // Strip the \\?\ prefix some APIs report and unify separators
+  return path.replace(/^\\\\\?\\/, '').replace(/\//g, '\\');
+}
+
+function windowsJoin(...parts: string[]): string {
+  return parts.filter(Boolean).map(part => part.replace(/[\\/]+$/, '')).join('\\');
+}
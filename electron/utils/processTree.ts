@@ -0,0 +1,112 @@
+export interface TreeProcess {
+  pid: number;
+  parentPid?: number;
+  started?: string;
+  cpu?: number;
+  memRss?: number;        // bytes
+  privateMemory?: number; // MB
+}
+
+export interface SubtreeTotals {
+  count: number;         // Processes in the subtree, including the root
+  cpu: number;           // %
+  memRss: number;        // bytes
+  privateMemory: number; // MB, RSS stands in for processes without a private figure
+}
+
+export interface ProcessTreeNode<T extends TreeProcess> {
+  process: T;
+  parentPid: number | null; // Resolved parent, null for roots
+  depth: number;
+  children: ProcessTreeNode<T>[];
+  totals: SubtreeTotals;
+}
+
+export interface ProcessTree<T extends TreeProcess> {
+  roots: ProcessTreeNode<T>[];
+  byPid: Map<number, ProcessTreeNode<T>>;
+}
+
+/**
+ * Build a parent/child tree from a flat process list and compute subtree totals.
+ * A process becomes a root when its parent is missing, is itself, started after it
+ * (Windows reuses PIDs, so the recorded parent may be an unrelated newer process)
+ * or would close a cycle.
+ */
+export function buildProcessTree<T extends TreeProcess>(processes: T[]): ProcessTree<T> {
+  const byPid = new Map<number, ProcessTreeNode<T>>();
+
+  for (const process of processes) {
+    byPid.set(process.pid, {
+      process,
+      parentPid: null,
+      depth: 0,
+      children: [],
+      totals: { count: 0, cpu: 0, memRss: 0, privateMemory: 0 }
+    });
+  }
+
+  // Resolve parents
+  for (const node of byPid.values()) {
+    const { pid, parentPid, started } = node.process;
+    if (parentPid === undefined || parentPid === pid) continue;
+
+    const parent = byPid.get(parentPid);
+    if (!parent) continue;
+
+    if (started && parent.process.started && parent.process.started > started) continue;
+
+    node.parentPid = parentPid;
+  }
+
+  // Break cycles by promoting the node that closes one to a root
+  for (const node of byPid.values()) {
+    const seen = new Set<number>([node.process.pid]);
+    let cursor = node.parentPid;
+    while (cursor !== null) {
+      if (seen.has(cursor)) {
+        node.parentPid = null;
+        break;
+      }
+      seen.add(cursor);
+      cursor = byPid.get(cursor)?.parentPid ?? null;
+    }
+  }
+
+  const roots: ProcessTreeNode<T>[] = [];
+  for (const node of byPid.values()) {
+    if (node.parentPid === null) {
+      roots.push(node);
+    } else {
+      byPid.get(node.parentPid)!.children.push(node);
+    }
+  }
+
+  for (const root of roots) {
+    computeTotals(root, 0);
+  }
+
+  return { roots, byPid };
+}
+
+function computeTotals<T extends TreeProcess>(node: ProcessTreeNode<T>, depth: number): SubtreeTotals {
+  const { cpu = 0, memRss = 0, privateMemory } = node.process;
+  const totals: SubtreeTotals = {
+    count: 1,
+    cpu,
+    memRss,
+    privateMemory: privateMemory ?? memRss / (1024 * 1024)
+  };
+
+  node.depth = depth;
+  for (const child of node.children) {
+    const childTotals = computeTotals(child, depth + 1);
+    totals.count += childTotals.count;
+    totals.cpu += childTotals.cpu;
+    totals.memRss += childTotals.memRss;
+    totals.privateMemory += childTotals.privateMemory;
+  }
+
+  node.totals = totals;
+  return totals;
+}
@@ -0,0 +1,186 @@
+import crypto from 'node:crypto';
+
+export type PromptKind = 'standard' | 'devmode';
+export type PromptOS = 'windows' | 'linux' | 'macos';
+
+/**
+ * What the built-in templates need to know about an OS
+ * Every field is also a placeholder, so user templates can use them too
+ */
+export interface OSProfile {
+  os_name: string;
+  system_processes: string;     // Kernel and session processes that must be kept
+  critical_processes: string;   // The subset that crashes the OS when killed
+  user_apps: string;            // Typical user applications, as examples of Safe
+  bloat_examples: string;
+  suspicious_locations: string; // Where a system binary never runs from
+  simple_utilities: string;     // Small apps that should never use much memory
+  injection_hint: string;       // How shared-library injection shows up on this OS
+  standard_notes: string;       // Extra lines for the standard prompt
+  devmode_notes: string;        // Extra lines for the Dev Mode prompt
+}
+
+/** Placeholders filled per request, on top of the OS profile fields */
+export interface PromptData {
+  columns: string;       // CSV column names
+  process_data: string;  // One CSV row per process
+  process_count: string;
+}
+
+export const PROMPT_PLACEHOLDERS: Array<keyof OSProfile | keyof PromptData> = [
+  'process_data', 'columns', 'process_count',
+  'os_name', 'system_processes', 'critical_processes', 'user_apps', 'bloat_examples',
+  'suspicious_locations', 'simple_utilities', 'injection_hint', 'standard_notes', 'devmode_notes'
+];
+
+export const OS_PROFILES: Record<PromptOS, OSProfile> = {
+  windows: {
+    os_name: 'Windows',
+    system_processes: 'System, Registry, smss.exe, csrss.exe, wininit.exe, services.exe, lsass.exe, svchost.exe, winlogon.exe, dwm.exe, spoolsv.exe, explorer.exe, taskhostw.exe, conhost.exe, sihost.exe, fontdrvhost.exe, Memory Compression',
+    critical_processes: 'System, Registry, smss.exe, csrss.exe, wininit.exe, services.exe, lsass.exe, svchost.exe, winlogon.exe, dwm.exe, fontdrvhost.exe, Memory Compression, any process with PID 0 or 4',
+    user_apps: 'Chrome, Discord, Steam, VS Code',
+    bloat_examples: 'Pre-installed OEM junk, unnecessary updaters (e.g., Adobe Update Service), telemetry agents',
+    suspicious_locations: 'temp, downloads, user profile folders',
+    simple_utilities: 'Notepad, Calc',
+    injection_hint: 'Potential DLL Injection',
+    standard_notes: '',
+    devmode_notes: '- **Handles:** Windows kernel object handles (files, registry keys, events, threads).'
+  },
+  linux: {
+    os_name: 'Linux',
+    system_processes: 'systemd, kthreadd and kernel threads ([kworker/*], [ksoftirqd/*], [rcu_*], [migration/*]), systemd-journald, systemd-udevd, systemd-logind, dbus-daemon, NetworkManager, polkitd, sshd, Xorg / Xwayland, gnome-shell / kwin_wayland / plasmashell, pipewire, wireplumber',
+    critical_processes: 'systemd / init (PID 1), kthreadd (PID 2), kernel threads shown in [brackets], systemd-journald, systemd-udevd, systemd-logind, dbus-daemon',
+    user_apps: 'firefox, chrome, code, steam, discord, spotify',
+    bloat_examples: 'Unneeded background daemons and indexers (e.g., tracker-miner, packagekitd, snap refresh helpers), updaters, telemetry agents',
+    suspicious_locations: '/tmp, /var/tmp, /dev/shm, ~/Downloads, hidden dot-directories',
+    simple_utilities: 'gedit, gnome-calculator',
+    injection_hint: 'Potential LD_PRELOAD / shared library injection',
+    standard_notes: '- **Kernel threads** ([kworker/0:1] and similar) have no executable path; a blank path is expected for them.',
+    devmode_notes: '- **Memory columns:** Private Memory is anonymous + private file-backed memory, Total Working Set is RSS.\n- **Handles:** Open file descriptors (files, sockets, pipes, eventfds).'
+  },
+  macos: {
+    os_name: 'macOS',
+    system_processes: 'kernel_task, launchd, WindowServer, loginwindow, opendirectoryd, configd, securityd, coreaudiod, mds, mds_stores, cfprefsd, distnoted, UserEventAgent, Finder, Dock, SystemUIServer',
+    critical_processes: 'kernel_task, launchd (PID 1), WindowServer, loginwindow, opendirectoryd, configd, securityd',
+    user_apps: 'Safari, Chrome, Slack, Xcode, Spotify',
+    bloat_examples: 'Vendor updaters and helpers (e.g., Adobe, Microsoft AutoUpdate), background agents nobody asked for, telemetry agents',
+    suspicious_locations: '/tmp, /private/var/folders, ~/Downloads, hidden folders in the home directory',
+    simple_utilities: 'TextEdit, Calculator',
+    injection_hint: 'Potential DYLD_INSERT_LIBRARIES injection',
+    standard_notes: '',
+    devmode_notes: '- **Handles:** Open file descriptors.'
+  }
+};
+
+export const DEFAULT_TEMPLATES: Record<PromptKind, string> = {
+  standard: `Act as a Senior {{os_name}} System Administrator and Security Analyst. Analyze the following list of active processes to identify performance bottlenecks, bloatware, and security risks.
+
+Input Format: "{{columns}}"
+
+**Definitions:**
+- **Private Memory:** The specific RAM unique to this process. High private memory in background tasks often indicates memory leaks or inefficient bloatware.
+- **Network:** Listening ports ("listen 80 443") and the number of distinct remote hosts it is connected to ("3 remote"). Blank means no open sockets were seen.
+- **Executable Path:** Where the binary runs from. Blank when it could not be read. A system process name running from an unexpected location ({{suspicious_locations}}) is masquerading. The same name can appear on several rows when different executables use it.
+{{standard_notes}}
+
+Instructions:
+1. Identify the specific application or vendor.
+2. **MANDATORY 'KEEP' (k) RULE:**
+   - You MUST set "k":true for ALL {{os_name}} Kernel & System processes, including but not limited to: {{system_processes}}.
+   - You MUST set "k":true for active user applications (Browsers, Games, IDEs, Media Players) unless they are frozen/responsive.
+   - Set "k":false ONLY for: Bloatware, background updaters, telemetry agents, malware, and non-essential utilities.
+
+3. Assess Risk Category (r):
+   - **SystemCritical:** ESSENTIAL {{os_name}} kernel & OS processes that MUST NEVER be terminated ({{critical_processes}}). These are core OS components - terminating them will crash {{os_name}}.
+   - **Safe:** Standard user applications ({{user_apps}}) and non-critical {{os_name}} utilities. Safe to terminate if needed.
+   - **Bloat:** {{bloat_examples}}. **FLAG AS BLOAT** if a background service is consuming excessive Private Memory (>150MB) without active user interaction.
+   - **Critical:** SECURITY THREATS - malware, miners, trojans, ransomware, or suspicious masquerading processes. These should be terminated immediately. Weigh network activity here: an unknown or system-named process listening on unusual ports or talking to many remote hosts is a strong signal. Judge the name together with its Executable Path: SystemCritical only applies to the genuine OS binary.
+   - **Unknown:** Unverified process names that cannot be confidently categorized.
+
+4. **Resource Analysis:**
+   - Use the **Private Memory** value to determine efficiency. If a simple background utility uses high Private Memory (>100MB), flag it in the description as "Inefficient resource usage".
+
+Return ONLY a JSON array with exactly one entry per input row, in input order. No markdown.
+
+Format: [{"n":"process_name","r":"SystemCritical|Safe|Bloat|Critical|Unknown","d":"description <400 chars","k":true|false}]
+- n: Exact process name.
+- r: Risk Category (MUST use SystemCritical for essential {{os_name}} kernel processes).
+- d: Contextual description. For SystemCritical processes, ALWAYS state "Essential {{os_name}} System Process - DO NOT TERMINATE".
+- k: Keep status. true = DO NOT KILL, false = KILL.
+
+Process data:
+{{process_data}}
+
+Return JSON array only:`,
+
+  devmode: `Act as a Senior Systems Profiler and Kernel Engineer on {{os_name}}. Analyze the following process memory snapshots to detect leaks, inefficiency, and abnormal shared resource usage.
+
+Input Format: "{{columns}}"
+
+**Definitions:**
+- **Shared Delta:** (WS - PWS). Represents memory shared with other processes (shared libraries, memory-mapped files).
+- **PWS Growth:** Robust trend of private memory over the last 30 minutes of samples. Blank means not enough history yet.
+- **Open Handles:** Blank when the count is not readable.
+- **Handle Growth:** Robust trend of the handle count over the same window. Sustained growth is a handle leak even when memory is flat.
+- **Leak Indicator:** High PWS that grows over time. Use PWS Growth when present; a sustained positive growth on a long-running process is strong leak evidence. When blank, infer from the PWS/WS ratio for known app types.
+{{devmode_notes}}
+
+**Instructions:**
+1. **Analyze Efficiency:** Compare PWS vs WS.
+   - If (WS >> PWS) for a non-system app, flag as "High Shared Dependency" (potential unoptimized library usage).
+   - If (PWS ~= WS) for a complex app (like Electron), this is normal.
+2. **Detect Anomalies:**
+   - **Bloated PWS:** Flag simple utilities ({{simple_utilities}}) with PWS >100MB as "Inefficient/Leak".
+   - **Suspicious Shared Usage:** Flag unknown processes with high Shared Delta as "{{injection_hint}}".
+3. **Generate Technical Recommendation:**
+   - Instead of "Kill/Keep", provide specific debugging advice (e.g., "Check handle release", "Investigate shared library linkage", "Monitor for Paging").
+
+Return ONLY a JSON array with exactly one entry per input row, in input order.
+
+Format: [{"n":"process_name","type":"Leak|Inefficient|Normal|Suspicious","analysis":"Technical insight <200 chars","recommendation":"Debug action"}]
+
+Process Data:
+{{process_data}}
+
+Return JSON array only:`
+};
+
+export function detectPromptOS(platform: NodeJS.Platform = process.platform): PromptOS {
+  if (platform === 'win32') return 'windows';
+  if (platform === 'darwin') return 'macos';
+  return 'linux';
+}
+
+/**
+ * Fill {{placeholders}}; unknown ones are left as written so typos stay visible
+ * Lines that end up empty because their only content was a blank placeholder are dropped
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .split('\n')
+    .flatMap(line => {
+      const rendered = line.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+      return rendered.trim() === '' && line.trim() !== '' ? [] : [rendered];
+    })
+    .join('\n');
+}
+
+/**
+ * Problems that would make a user template unusable, or null when it is fine
+ */
+export function validateTemplate(template: string): string | null {
+  if (!template.trim()) return 'Template is empty';
+  if (!/\{\{\s*process_data\s*\}\}/.test(template)) return 'Template must contain {{process_data}}';
+  return null;
+}
+
+/**
+ * Short content hash identifying what a prompt asked for
+ * Covers the template and the OS profile it is rendered with, so editing either changes it
+ */
+export function templateVersion(kind: PromptKind, os: PromptOS, template: string): string {
+  const hash = crypto.createHash('sha256')
+    .update(`${kind}\n${JSON.stringify(OS_PROFILES[os])}\n${template}`)
+    .digest('hex');
+  return `${os}-${hash.slice(0, 12)}`;
+}
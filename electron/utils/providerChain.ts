@@ -0,0 +1,113 @@
+export type ProviderId = 'openrouter' | 'gemini' | 'local';
+
+export interface ProviderChainEntry {
+  id: ProviderId;
+  enabled: boolean;
+  model: string;
+  params: Record<string, unknown>; // Extra generation params sent with every request (temperature, reasoning_effort...)
+  contextTokens: number;   // Model context window, prompt and answer together
+  maxOutputTokens: number; // Longest answer the model will produce
+  requestsPerMinute: number; // Rate limits of the account / server, 0 = unlimited
+  tokensPerMinute: number;
+  maxConcurrent: number;     // Batches sent to this provider at once
+}
+
+export type TokenBudget = Pick<ProviderChainEntry, 'contextTokens' | 'maxOutputTokens'>;
+export type ProviderRateLimits = Pick<ProviderChainEntry, 'requestsPerMinute' | 'tokensPerMinute' | 'maxConcurrent'>;
+
+export const PROVIDER_IDS: ProviderId[] = ['openrouter', 'gemini', 'local'];
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  openrouter: 'gpt-oss-20b',
+  gemini: 'gemini-2.5-flash',
+  local: 'llama3.1:8b'
+};
+
+// Limits of the default models; a local Ollama model only gets the num_ctx it is run with
+export const DEFAULT_TOKEN_BUDGETS: Record<ProviderId, TokenBudget> = {
+  openrouter: { contextTokens: 131072, maxOutputTokens: 32768 },
+  gemini: { contextTokens: 1048576, maxOutputTokens: 65536 },
+  local: { contextTokens: 4096, maxOutputTokens: 2048 }
+};
+
+// Free-tier limits for the cloud APIs; a local server works through one batch at a time
+export const DEFAULT_RATE_LIMITS: Record<ProviderId, ProviderRateLimits> = {
+  openrouter: { requestsPerMinute: 20, tokensPerMinute: 0, maxConcurrent: 4 },
+  gemini: { requestsPerMinute: 10, tokensPerMinute: 250000, maxConcurrent: 4 },
+  local: { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 1 }
+};
+
+// OpenRouter first, Gemini as fallback; the local model is opt-in
+export const DEFAULT_PROVIDER_CHAIN: ProviderChainEntry[] = [
+  { id: 'openrouter', enabled: true, model: DEFAULT_MODELS.openrouter, params: {}, ...DEFAULT_TOKEN_BUDGETS.openrouter, ...DEFAULT_RATE_LIMITS.openrouter },
+  { id: 'gemini', enabled: true, model: DEFAULT_MODELS.gemini, params: {}, ...DEFAULT_TOKEN_BUDGETS.gemini, ...DEFAULT_RATE_LIMITS.gemini },
+  { id: 'local', enabled: false, model: DEFAULT_MODELS.local, params: {}, ...DEFAULT_TOKEN_BUDGETS.local, ...DEFAULT_RATE_LIMITS.local }
+];
+
+/**
+ * Clean up a chain coming from settings
+ * Drops unknown and duplicate entries, appends missing providers (disabled) so every
+ * provider always has a row, and fills in default models, token budgets and rate limits.
+ * @param legacyLocalRole The local provider's old 'primary' / 'fallback' setting, used when no chain was saved yet
+ */
+export function normalizeProviderChain(raw: unknown, legacyLocalRole?: string): ProviderChainEntry[] {
+  if (!Array.isArray(raw)) {
+    return chainFromLegacyRole(legacyLocalRole);
+  }
+
+  const seen = new Set<ProviderId>();
+  const chain: ProviderChainEntry[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Partial<ProviderChainEntry>;
+    if (!entry.id || !PROVIDER_IDS.includes(entry.id) || seen.has(entry.id)) continue;
+
+    seen.add(entry.id);
+    chain.push({
+      id: entry.id,
+      enabled: entry.enabled !== false,
+      model: typeof entry.model === 'string' && entry.model.trim() ? entry.model.trim() : DEFAULT_MODELS[entry.id],
+      params: isPlainObject(entry.params) ? entry.params : {},
+      contextTokens: positiveInt(entry.contextTokens) ?? DEFAULT_TOKEN_BUDGETS[entry.id].contextTokens,
+      maxOutputTokens: positiveInt(entry.maxOutputTokens) ?? DEFAULT_TOKEN_BUDGETS[entry.id].maxOutputTokens,
+      requestsPerMinute: nonNegativeInt(entry.requestsPerMinute) ?? DEFAULT_RATE_LIMITS[entry.id].requestsPerMinute,
+      tokensPerMinute: nonNegativeInt(entry.tokensPerMinute) ?? DEFAULT_RATE_LIMITS[entry.id].tokensPerMinute,
+      maxConcurrent: positiveInt(entry.maxConcurrent) ?? DEFAULT_RATE_LIMITS[entry.id].maxConcurrent
+    });
+  }
+
+  for (const id of PROVIDER_IDS) {
+    if (!seen.has(id)) chain.push({ id, enabled: false, model: DEFAULT_MODELS[id], params: {}, ...DEFAULT_TOKEN_BUDGETS[id], ...DEFAULT_RATE_LIMITS[id] });
+  }
+
+  return chain;
+}
+
+function chainFromLegacyRole(role: string | undefined): ProviderChainEntry[] {
+  const [openrouter, gemini, local] = DEFAULT_PROVIDER_CHAIN;
+
+  switch (role) {
+    case 'primary':
+      return [{ ...local, enabled: true }, openrouter, gemini];
+    case 'fallback':
+      return [openrouter, gemini, { ...local, enabled: true }];
+    default:
+      return DEFAULT_PROVIDER_CHAIN.map(entry => ({ ...entry }));
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function nonNegativeInt(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
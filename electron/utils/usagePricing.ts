@@ -0,0 +1,55 @@
+import type { ProviderId } from './providerChain.js';
+
+export interface ModelPrice {
+  inputPerMTok: number;  // USD per million prompt tokens
+  outputPerMTok: number; // USD per million completion tokens
+}
+
+// Keyed by model name as configured in the provider chain
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; edit them in Settings when they change
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-oss-20b': { inputPerMTok: 0.03, outputPerMTok: 0.15 },
+  'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  'gemini-2.5-pro': { inputPerMTok: 1.25, outputPerMTok: 10 }
+};
+
+/**
+ * Keep only well-formed entries from a price table coming from settings
+ */
+export function normalizePriceTable(raw: unknown): PriceTable {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ...DEFAULT_PRICE_TABLE };
+  }
+
+  const table: PriceTable = {};
+  for (const [model, price] of Object.entries(raw as Record<string, Partial<ModelPrice>>)) {
+    const input = Number(price?.inputPerMTok);
+    const output = Number(price?.outputPerMTok);
+    if (model.trim() && Number.isFinite(input) && input >= 0 && Number.isFinite(output) && output >= 0) {
+      table[model.trim()] = { inputPerMTok: input, outputPerMTok: output };
+    }
+  }
+  return table;
+}
+
+/**
+ * Estimated USD cost of one call
+ * Self-hosted models are free; a model missing from the table has no cost (null) rather than a guess.
+ * OpenRouter reports models as vendor/name, so the part after the last slash is tried too.
+ */
+export function estimateCost(
+  prices: PriceTable,
+  provider: ProviderId,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  if (provider === 'local') return 0;
+
+  const price = prices[model] ?? prices[model.slice(model.lastIndexOf('/') + 1)];
+  if (!price) return null;
+
+  return (promptTokens * price.inputPerMTok + completionTokens * price.outputPerMTok) / 1_000_000;
+}
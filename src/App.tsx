@@ -1,27 +1,45 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import './App.css'
 import SettingsModal from './components/SettingsModal';
 import ProcessList from './components/ProcessList';
-import TreemapViz from './components/TreemapViz';
+import TreemapViz, { TreemapLayout } from './components/TreemapViz';
 import InspectorPane from './components/InspectorPane';
 import TrackingModal from './components/TrackingModal';
 import AnalysisLogsModal, { AnalysisLogEntry } from './components/AnalysisLogsModal';
+import UsageModal from './components/UsageModal';
 import DevModePage from './components/DevModePage';
-import { FilterOptions } from './types';
+import SystemOverviewPanel from './components/SystemOverviewPanel';
+import { FilterOptions, ProcessesUpdateMessage, SystemSnapshot } from './types';
+import { ProcessStore } from './utils/processStore';
+import { groupByApplication } from './utils/appGroups';
 // Components import is implicit if file structure matches, but standard import
 
+const SYSTEM_HISTORY_LENGTH = 150; // Rolling chart window, ~5 min at the default poll interval
+
 function App() {
   const [processes, setProcesses] = useState<any[]>([])
+  const appGroups = useMemo(() => groupByApplication(processes), [processes]);
+  // Distinct executables whose cached verdict is past its TTL
+  const staleCount = useMemo(
+    () => new Set(processes.filter(p => p.analysis?.stale).map(p => `${p.name}|${p.identity}`)).size,
+    [processes]
+  );
   const [treemapProcesses, setTreemapProcesses] = useState<any[]>([])
+  const [treemapLayout, setTreemapLayout] = useState<TreemapLayout>('risk');
   const isTreemapInitializedRef = useRef(false);
+  const processStoreRef = useRef(new ProcessStore());
   const [selectedPid, setSelectedPid] = useState<number | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isTrackingModalOpen, setIsTrackingModalOpen] = useState(false);
   const [trackedProcesses, setTrackedProcesses] = useState<any[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [isAnalysisLogsOpen, setIsAnalysisLogsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
   const [analysisLogs, setAnalysisLogs] = useState<AnalysisLogEntry[]>([]);
   const [devModeEnabled, setDevModeEnabled] = useState(false);
+  const [skippedTicks, setSkippedTicks] = useState(0);
+  const [systemHistory, setSystemHistory] = useState<SystemSnapshot[]>([]);
   
   const [filters, setFilters] = useState<FilterOptions>({
     searchTerm: '',
@@ -60,20 +78,25 @@ function App() {
     setAnalysisLogs(prev => [...prev, logEntry]);
   };
 
-  const handleBatchAnalyze = async () => {
+  const runBatchAnalysis = async (options: { reanalyzeOutdated?: boolean; refreshStale?: boolean } = {}) => {
     setIsAnalyzing(true);
     // Clear previous logs and open modal
     setAnalysisLogs([]);
     setIsAnalysisLogsOpen(true);
-    addAnalysisLog('info', `Starting ${devModeEnabled ? 'Dev Mode' : 'standard'} batch analysis...`);
+    const scope = options.refreshStale
+      ? ' of expired results'
+      : options.reanalyzeOutdated ? ', including results from older prompt templates' : '';
+    addAnalysisLog('info', `Starting ${devModeEnabled ? 'Dev Mode' : 'standard'} batch analysis${scope}...`);
     
     try {
       // @ts-ignore
       const ipcChannel = devModeEnabled ? 'batch-analyze-devmode' : 'batch-analyze';
-      const result = await window.ipcRenderer.invoke(ipcChannel);
+      const result = await window.ipcRenderer.invoke(ipcChannel, options);
       if (result.success) {
         console.log(`Batch analysis complete: ${result.message}`);
         addAnalysisLog('success', result.message || `Analysis complete: ${result.count} processes analyzed`);
+      } else if (result.cancelled) {
+        addAnalysisLog('info', 'Analysis cancelled');
       } else {
         addAnalysisLog('error', `Analysis failed: ${result.error}`);
         alert(`Analysis failed: ${result.error}`);
@@ -85,6 +108,26 @@ function App() {
       alert('Failed to analyze processes');
     } finally {
       setIsAnalyzing(false);
+      setIsCancelling(false);
+    }
+  };
+
+  const handleBatchAnalyze = () => runBatchAnalysis();
+
+  // Redo cached verdicts made with a prompt template that has since changed
+  const handleReanalyzeOutdated = () => {
+    setIsSettingsOpen(false);
+    runBatchAnalysis({ reanalyzeOutdated: true });
+  };
+
+  const handleRefreshStale = () => runBatchAnalysis({ refreshStale: true });
+
+  const handleCancelAnalysis = async () => {
+    setIsCancelling(true);
+    addAnalysisLog('info', 'Cancelling analysis, stopping in-flight requests...');
+    const result = await window.ipcRenderer.invoke('cancel-analysis');
+    if (!result.success) {
+      setIsCancelling(false);
     }
   };
 
@@ -92,19 +135,53 @@ function App() {
     setTreemapProcesses(processes);
   };
 
+  const handleSampleNow = async () => {
+    // The fresh sample arrives through the regular processes-update channel
+    const result = await window.ipcRenderer.invoke('sample-now');
+    if (!result.success) {
+      console.warn(`Sample now skipped: ${result.error}`);
+    }
+  };
+
   useEffect(() => {
-    // @ts-ignore
-    window.ipcRenderer.on('processes-update', (_event, data) => {
-      const uniqueProcesses = deduplicateProcesses(data);
-      setProcesses(uniqueProcesses);
+    const handleProcessesUpdate = (update: ProcessesUpdateMessage) => {
+      const result = processStoreRef.current.apply(update);
+
+      if (result === 'resync') {
+        // Sequence gap (or first message after load): ask for the full state
+        // A failed resync (e.g. collector restarting) is retried by the next update
+        window.ipcRenderer.invoke('processes-resync')
+          .then(handleProcessesUpdate)
+          .catch(error => {
+            console.error('Process resync error:', error);
+            processStoreRef.current.resyncFailed();
+          });
+        return;
+      }
+      if (result !== 'applied') return;
+
+      const data = processStoreRef.current.list();
+      setProcesses(data);
       
       // Initialize treemap data once
-      if (!isTreemapInitializedRef.current && uniqueProcesses.length > 0) {
-        setTreemapProcesses(uniqueProcesses);
+      if (!isTreemapInitializedRef.current && data.length > 0) {
+        setTreemapProcesses(data);
         isTreemapInitializedRef.current = true;
       }
       
       // If we have a selected PID, keep it selected? Yes, unless it died.
+    };
+
+    window.ipcRenderer.on('processes-update', (_event, update: ProcessesUpdateMessage) => handleProcessesUpdate(update));
+
+    // Machine-wide memory/CPU, streamed with every process tick
+    window.ipcRenderer.on('system-update', (_event, snapshot: SystemSnapshot) => {
+      setSystemHistory(prev => [...prev.slice(-(SYSTEM_HISTORY_LENGTH - 1)), snapshot]);
+    });
+
+    // The collector skipped a tick because the previous one was still running
+    window.ipcRenderer.on('collector-overrun', (_event, data: { skipped: number }) => {
+      setSkippedTicks(data.skipped);
     });
     
     // Listener for individual updates if we want (analysis-complete)
@@ -123,14 +200,16 @@ function App() {
     // @ts-ignore
     window.ipcRenderer.on('batch-analysis-complete', (_event, data) => {
       console.log(`Batch analysis completed: ${data.count} processes analyzed`);
-      addAnalysisLog('success', `✓ Batch analysis completed: ${data.count} processes analyzed at ${new Date(data.timestamp).toLocaleTimeString()}`);
+      const missing = (data.coverage ?? []).filter((c: { analyzed: boolean }) => !c.analyzed).length;
+      addAnalysisLog('success', `✓ Batch analysis completed: ${data.count} processes analyzed${missing > 0 ? `, ${missing} still missing` : ''} at ${new Date(data.timestamp).toLocaleTimeString()}`);
       // Processes will update on next poll cycle automatically
     });
 
     // Listener for batch analysis progress
     // @ts-ignore
     window.ipcRenderer.on('batch-analysis-progress', (_event, data) => {
-      addAnalysisLog('progress', `Processing batch ${data.currentBatch}/${data.totalBatches} (${data.processesInBatch} processes)`);
+      const inFlight = data.inFlight > 1 ? ` · ${data.inFlight} in flight, ${data.completedBatches} done` : '';
+      addAnalysisLog('progress', `Processing batch ${data.currentBatch}/${data.totalBatches} (${data.processesInBatch} processes)${inFlight}`);
     });
 
     // Listener for AI provider selection
@@ -160,6 +239,7 @@ function App() {
   }, []);
 
   const selectedProcess = processes.find(p => p.pid === selectedPid) || null;
+  const selectedGroup = appGroups.find(g => g.instances.some(p => p.pid === selectedPid)) || null;
 
   const handleExitDevMode = async () => {
     setDevModeEnabled(false);
@@ -175,19 +255,25 @@ function App() {
           processes={processes}
           onExitDevMode={handleExitDevMode}
           onAnalyze={handleBatchAnalyze}
+          onCancelAnalysis={handleCancelAnalysis}
           isAnalyzing={isAnalyzing}
+          isCancelling={isCancelling}
         />
         <SettingsModal 
           isOpen={isSettingsOpen} 
           onClose={() => setIsSettingsOpen(false)}
           devModeEnabled={devModeEnabled}
           onDevModeChange={setDevModeEnabled}
+          onReanalyzeOutdated={isAnalyzing ? undefined : handleReanalyzeOutdated}
         />
         <AnalysisLogsModal
           isOpen={isAnalysisLogsOpen}
           onClose={() => setIsAnalysisLogsOpen(false)}
           onClear={handleClearAnalysisLogs}
           logs={analysisLogs}
+          isAnalyzing={isAnalyzing}
+          isCancelling={isCancelling}
+          onCancel={handleCancelAnalysis}
         />
       </>
     );
@@ -215,6 +301,14 @@ function App() {
           {/* Header Bar */}
           <div className="flex justify-between items-center p-3 border-b border-tech-gray bg-tech-black/80 backdrop-blur-sm z-30">
               <h3 className="">
+                  {skippedTicks > 0 && (
+                      <span
+                          className="px-2 py-0.5 text-[10px] font-mono text-yellow-400 border border-yellow-400/40 bg-yellow-400/10 rounded"
+                          title="Sampling takes longer than the polling interval, so some ticks were skipped"
+                      >
+                        SAMPLER LAGGING · {skippedTicks} skipped
+                      </span>
+                  )}
               </h3>
               
               <div className="flex items-center gap-3">
@@ -242,6 +336,24 @@ function App() {
                     Refresh Map
                   </button>
 
+                  {/* Sample Now Button */}
+                  <button 
+                      onClick={handleSampleNow}
+                      className="px-3 py-1 text-xs font-mono font-medium text-text-dim border border-text-dim/30 bg-tech-gray rounded hover:bg-tech-gray/80 hover:text-white hover:border-text-dim transition-all flex items-center gap-2"
+                      title="Collect process data now instead of waiting for the next poll"
+                  >
+                    Sample Now
+                  </button>
+
+                  {/* Treemap Layout Toggle */}
+                  <button 
+                      onClick={() => setTreemapLayout(treemapLayout === 'risk' ? 'tree' : 'risk')}
+                      className="px-3 py-1 text-xs font-mono font-medium text-text-dim border border-text-dim/30 bg-tech-gray rounded hover:bg-tech-gray/80 hover:text-white hover:border-text-dim transition-all flex items-center gap-2"
+                      title="Switch between risk groups and the parent/child process tree"
+                  >
+                    Map: {treemapLayout === 'risk' ? 'Risk' : 'Tree'}
+                  </button>
+
                   {/* Batch Analyze Button */}
                   <button 
                       onClick={handleBatchAnalyze}
@@ -267,6 +379,38 @@ function App() {
                     )}
                   </button>
 
+                  {/* Refresh Stale Button */}
+                  {staleCount > 0 && !isAnalyzing && (
+                    <button 
+                        onClick={handleRefreshStale}
+                        className="px-3 py-1 text-xs font-mono font-medium text-risk-warn border border-risk-warn/50 bg-risk-warn/10 rounded hover:bg-risk-warn/20 hover:border-risk-warn transition-all"
+                        title="Re-analyze only the cached verdicts that are past their re-check interval"
+                    >
+                      Refresh Stale ({staleCount})
+                    </button>
+                  )}
+
+                  {/* Cancel Analysis Button */}
+                  {isAnalyzing && (
+                    <button 
+                        onClick={handleCancelAnalysis}
+                        disabled={isCancelling}
+                        className="px-3 py-1 text-xs font-mono font-medium text-risk-crit border border-risk-crit/50 bg-risk-crit/10 rounded hover:bg-risk-crit/20 hover:border-risk-crit transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Stop the running analysis; finished batches are kept"
+                    >
+                      {isCancelling ? 'Cancelling...' : 'Cancel'}
+                    </button>
+                  )}
+
+                  {/* AI Usage Button */}
+                  <button 
+                      onClick={() => setIsUsageOpen(true)}
+                      className="px-3 py-1 text-xs font-mono font-medium text-text-dim border border-text-dim/30 bg-tech-gray rounded hover:bg-tech-gray/80 hover:text-white hover:border-text-dim transition-all"
+                      title="AI calls, tokens and estimated cost"
+                  >
+                    Usage
+                  </button>
+
                   {/* Settings Button */}
                   <button 
                       onClick={() => setIsSettingsOpen(true)}
@@ -281,15 +425,20 @@ function App() {
               </div>
           </div>
 
+          <SystemOverviewPanel history={systemHistory} />
+
           <div className="flex-1 relative overflow-hidden">
             <TreemapViz 
               processes={treemapProcesses} 
               onSelect={setSelectedPid} 
               filters={filters}
+              layout={treemapLayout}
             />
           </div>
           <InspectorPane 
               process={selectedProcess} 
+              group={selectedGroup}
+              onSelect={setSelectedPid}
               onTrack={handleTrackProcess}
           />
       </div>
@@ -306,6 +455,14 @@ function App() {
         onClose={() => setIsAnalysisLogsOpen(false)}
         onClear={handleClearAnalysisLogs}
         logs={analysisLogs}
+        isAnalyzing={isAnalyzing}
+        isCancelling={isCancelling}
+        onCancel={handleCancelAnalysis}
+      />
+
+      <UsageModal
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
       />
 
       <SettingsModal 
@@ -313,26 +470,10 @@ function App() {
         onClose={() => setIsSettingsOpen(false)}
         devModeEnabled={devModeEnabled}
         onDevModeChange={setDevModeEnabled}
+        onReanalyzeOutdated={isAnalyzing ? undefined : handleReanalyzeOutdated}
       />
     </div>
   )
 }
 
 export default App
-
-/**
- * Deduplicate processes by name (case-insensitive)
- * Returns array of unique processes, keeping the first occurrence of each
- */
-function deduplicateProcesses(processes: any[]): any[] {
-  const seen = new Map<string, any>();
-  
-  for (const process of processes) {
-    const normalizedName = process.name?.toLowerCase() || '';
-    if (normalizedName && !seen.has(normalizedName)) {
-      seen.set(normalizedName, process);
-    }
-  }
-  
-  return Array.from(seen.values());
-}
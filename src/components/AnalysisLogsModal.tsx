@@ -3,7 +3,7 @@ import React, { useEffect, useRef } from 'react';
 export interface AnalysisLogEntry {
   id: string;
   timestamp: Date;
-  type: 'info' | 'progress' | 'retry' | 'error' | 'success' | 'provider';
+  type: 'info' | 'progress' | 'retry' | 'error' | 'success' | 'provider' | 'invalid'; // invalid: response row that failed schema validation
   message: string;
 }
 
@@ -12,9 +12,12 @@ interface Props {
   onClose: () => void;
   onClear: () => void;
   logs: AnalysisLogEntry[];
+  isAnalyzing?: boolean;
+  isCancelling?: boolean;
+  onCancel?: () => void;
 }
 
-const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs }) => {
+const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs, isAnalyzing, isCancelling, onCancel }) => {
   const logsEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new logs arrive
@@ -38,6 +41,8 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
         return '▸';
       case 'provider':
         return '◈';
+      case 'invalid':
+        return '⚠';
       default:
         return '•';
     }
@@ -90,6 +95,7 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
                     log.type === 'success' ? 'border-green-500/50' : 
                     log.type === 'retry' ? 'border-yellow-500/50' : 
                     log.type === 'provider' ? 'border-neon-cyan/50' : 
+                    log.type === 'invalid' ? 'border-orange-500/50' : 
                     'border-transparent'
                   }`}
                 >
@@ -99,6 +105,7 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
                     log.type === 'retry' ? 'text-yellow-400' : 
                     log.type === 'progress' ? 'text-neon-blue' : 
                     log.type === 'provider' ? 'text-neon-cyan' : 
+                    log.type === 'invalid' ? 'text-orange-400' : 
                     'text-gray-500'
                   }`}>{getLogIcon(log.type)}</span>
                   <div className="flex-1 min-w-0">
@@ -113,6 +120,7 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
                           log.type === 'retry' ? 'text-yellow-500/70' : 
                           log.type === 'progress' ? 'text-neon-blue/70' : 
                           log.type === 'provider' ? 'text-neon-cyan/70' : 
+                          log.type === 'invalid' ? 'text-orange-500/70' : 
                           'text-gray-600'
                         }`}>
                           {log.type}
@@ -122,6 +130,7 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
                     <div className={`mt-0.5 leading-relaxed break-words ${
                       log.type === 'error' ? 'text-red-300' : 
                       log.type === 'success' ? 'text-green-300' : 
+                      log.type === 'invalid' ? 'text-orange-300' : 
                       'text-gray-300'
                     }`}>
                       {log.message}
@@ -138,6 +147,15 @@ const AnalysisLogsModal: React.FC<Props> = ({ isOpen, onClose, onClear, logs })
         <div className="p-3 border-t border-tech-gray bg-black/40 text-[10px] text-gray-500 font-mono flex justify-between items-center">
           <span>TOTAL ENTRIES: <span className="text-white">{logs.length}</span></span>
           <div className="flex gap-4 items-center">
+            {isAnalyzing && onCancel && (
+              <button 
+                onClick={onCancel}
+                disabled={isCancelling}
+                className="text-[10px] text-red-400 border border-red-500/50 px-2 py-0.5 rounded-sm hover:bg-red-500/10 transition-colors uppercase font-bold tracking-wider disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                {isCancelling ? 'Cancelling...' : 'Cancel Analysis'}
+              </button>
+            )}
             <button 
               onClick={onClear}
               disabled={logs.length === 0}
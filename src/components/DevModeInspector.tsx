@@ -1,11 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import StackedMemoryBar from './StackedMemoryBar';
-
-interface DevModeAnalysis {
-  type: 'Leak' | 'Inefficient' | 'Normal' | 'Suspicious';
-  analysis: string;
-  recommendation: string;
-}
+import ProcessChatPanel from './ProcessChatPanel';
+import HandleTrendSparkline from './HandleTrendSparkline';
+import { DevModeAnalysis, LeakVerdict, HandleLeakVerdict } from '../types';
 
 interface Process {
   pid: number;
@@ -14,7 +11,14 @@ interface Process {
   mem: number; // RSS/Working Set in bytes
   memRss?: number; // Total Working Set in bytes
   privateMemory?: number; // PWS in MB
+  memPss?: number; // PSS in bytes (Linux only)
+  memSwap?: number; // Swap in bytes (Linux only)
+  handles?: number; // Open handles / file descriptors
+  threads?: number;
   user?: string;
+  identity?: string | null; // Analysis cache and chat transcript key
+  leak?: LeakVerdict | null;
+  handleLeak?: HandleLeakVerdict | null;
   analysis?: DevModeAnalysis;
 }
 
@@ -24,6 +28,8 @@ interface Props {
 }
 
 const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
+  const [showChat, setShowChat] = useState(false);
+
   if (!process) {
     return (
       <div className="h-72 bg-tech-black border-t border-purple-500/30 p-6 flex items-center justify-center">
@@ -39,6 +45,8 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
   const privateMemoryMB = process.privateMemory || (process.mem / 1024 / 1024);
   const totalMemoryMB = process.memRss ? process.memRss / 1024 / 1024 : privateMemoryMB;
   const sharedDeltaMB = Math.max(0, totalMemoryMB - privateMemoryMB);
+  const pssMB = process.memPss !== undefined ? process.memPss / 1024 / 1024 : null;
+  const swapMB = process.memSwap !== undefined ? process.memSwap / 1024 / 1024 : null;
 
   // Type badge styling
   const getTypeBadgeStyle = (type?: string) => {
@@ -68,7 +76,15 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
       memory: {
         privateWorkingSetMB: privateMemoryMB,
         totalWorkingSetMB: totalMemoryMB,
-        sharedDeltaMB: sharedDeltaMB
+        sharedDeltaMB: sharedDeltaMB,
+        pssMB: pssMB,
+        swapMB: swapMB
+      },
+      leakTrend: process.leak || null,
+      handles: {
+        open: process.handles ?? null,
+        threads: process.threads ?? null,
+        trend: process.handleLeak || null
       },
       analysis: process.analysis || null
     };
@@ -89,6 +105,22 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
                 {process.analysis.type}
               </span>
             )}
+            {process.handleLeak?.isLeak && (
+              <span
+                className="text-[9px] font-mono px-1.5 py-0.5 rounded border border-red-500/60 text-red-400 uppercase tracking-wider"
+                title={`Handle count growing ${process.handleLeak.growthPerHour.toFixed(0)}/h over ${process.handleLeak.windowMinutes.toFixed(0)} min`}
+              >
+                Handle Leak
+              </span>
+            )}
+            {process.analysis?.source && (
+              <span
+                className="text-[9px] font-mono px-1.5 py-0.5 rounded border border-gray-600 text-gray-400 uppercase tracking-wider"
+                title={process.analysis.ai_type ? `AI classified this as ${process.analysis.ai_type}` : 'Confirmed by the local trend detector'}
+              >
+                {process.analysis.source === 'detector' ? 'Trend Override' : 'Trend Confirmed'}
+              </span>
+            )}
           </h2>
           <div className="text-xs font-mono text-purple-400/60 mt-1 flex gap-4">
             <span>PID: <span className="text-white">{process.pid}</span></span>
@@ -133,6 +165,53 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
               <div className="text-gray-500 text-[9px] uppercase">Total WS</div>
             </div>
           </div>
+
+          {/* Trend Detector */}
+          <div className="pt-2 border-t border-gray-800">
+            <div className="text-[9px] uppercase text-gray-500 font-mono mb-1">Trend Detector (30 min)</div>
+            {process.leak ? (
+              <div className="flex justify-between text-[10px] font-mono">
+                <span className={process.leak.isLeak ? 'text-red-400 font-bold' : 'text-gray-300'}>
+                  {process.leak.growthMbPerHour >= 0 ? '+' : ''}{process.leak.growthMbPerHour.toFixed(1)} MB/h
+                </span>
+                <span className="text-gray-500" title={`R² ${process.leak.rSquared.toFixed(2)}, ${(process.leak.monotonicity * 100).toFixed(0)}% non-decreasing steps`}>
+                  CONF: <span className="text-gray-300">{(process.leak.confidence * 100).toFixed(0)}%</span>
+                </span>
+                <span className="text-gray-500">
+                  N: <span className="text-gray-300">{process.leak.sampleCount}</span>
+                </span>
+              </div>
+            ) : (
+              <div className="text-[10px] font-mono text-gray-600">Collecting history...</div>
+            )}
+          </div>
+
+          {/* Handle / Thread Trend */}
+          <div className="pt-2 border-t border-gray-800">
+            <div className="text-[9px] uppercase text-gray-500 font-mono mb-1">Handles &amp; Threads (30 min)</div>
+            <HandleTrendSparkline
+              pid={process.pid}
+              name={process.name}
+              handles={process.handles}
+              threads={process.threads}
+              handleLeak={process.handleLeak}
+            />
+          </div>
+
+          {(pssMB !== null || swapMB !== null) && (
+            <div className="flex justify-between text-[10px] font-mono text-gray-500 pt-1">
+              {pssMB !== null && (
+                <span title="Proportional Set Size - shared pages split between their users">
+                  PSS: <span className="text-gray-300">{pssMB.toFixed(0)} MB</span>
+                </span>
+              )}
+              {swapMB !== null && (
+                <span title="Memory of this process currently swapped out">
+                  SWAP: <span className="text-gray-300">{swapMB.toFixed(0)} MB</span>
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Heuristic Analysis Panel */}
@@ -140,8 +219,20 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
           <h3 className="text-[10px] font-mono font-bold text-purple-400 uppercase tracking-widest mb-2 flex items-center gap-2">
             Heuristic Analysis
             {process.analysis && <span className="w-1.5 h-1.5 bg-purple-500 rounded-full animate-ping"></span>}
+            <button
+              onClick={() => setShowChat(!showChat)}
+              className={`ml-auto px-2 py-0.5 rounded border text-[9px] tracking-widest transition-colors ${showChat ? 'border-purple-400 text-purple-300' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+              title="Ask follow-up questions about this process"
+            >
+              {showChat ? 'Insights' : 'Ask AI'}
+            </button>
           </h3>
           
+          {showChat ? (
+            <div className="flex-1 min-h-0 bg-gray-900/50 rounded border border-purple-500/20 p-3">
+              <ProcessChatPanel pid={process.pid} name={process.name} identity={process.identity} />
+            </div>
+          ) : (
           <div className="flex-1 bg-gray-900/50 rounded border border-purple-500/20 p-3 overflow-y-auto">
             {process.analysis ? (
               <div className="space-y-3">
@@ -164,6 +255,7 @@ const DevModeInspector: React.FC<Props> = ({ process, onGenerateReport }) => {
               </div>
             )}
           </div>
+          )}
         </div>
       </div>
     </div>
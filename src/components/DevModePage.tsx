@@ -23,10 +23,12 @@ interface Props {
   processes: Process[];
   onExitDevMode: () => void;
   onAnalyze: () => void;
+  onCancelAnalysis: () => void;
   isAnalyzing: boolean;
+  isCancelling: boolean;
 }
 
-const DevModePage: React.FC<Props> = ({ processes, onExitDevMode, onAnalyze, isAnalyzing }) => {
+const DevModePage: React.FC<Props> = ({ processes, onExitDevMode, onAnalyze, onCancelAnalysis, isAnalyzing, isCancelling }) => {
   const [selectedPid, setSelectedPid] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('All');
@@ -120,6 +122,17 @@ const DevModePage: React.FC<Props> = ({ processes, onExitDevMode, onAnalyze, isA
               <>Analyze All</>
             )}
           </button>
+
+          {isAnalyzing && (
+            <button
+              onClick={onCancelAnalysis}
+              disabled={isCancelling}
+              className="px-4 py-1.5 text-xs font-mono font-medium text-red-400 border border-red-500/50 bg-red-500/10 rounded hover:bg-red-500/20 hover:border-red-400 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Stop the running analysis; finished batches are kept"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
           
           <button
             onClick={onExitDevMode}
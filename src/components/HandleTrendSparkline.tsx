@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { HandleLeakVerdict, ProcessSample } from '../types';
+
+interface Props {
+  pid: number;
+  name: string;
+  handles?: number;
+  threads?: number;
+  handleLeak?: HandleLeakVerdict | null;
+}
+
+const WINDOW_MS = 30 * 60 * 1000; // Same window as the trend detector
+const REFRESH_MS = 30 * 1000;
+
+interface SparkPoint {
+  ts: number;
+  handles: number | null;
+  threads: number | null;
+}
+
+const HandleTrendSparkline: React.FC<Props> = ({ pid, name, handles, threads, handleLeak }) => {
+  const [points, setPoints] = useState<SparkPoint[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      const to = Date.now();
+      window.ipcRenderer
+        .invoke('get-process-history', { pid, processName: name, from: to - WINDOW_MS, to })
+        .then((result: { success: boolean; samples?: ProcessSample[] }) => {
+          if (cancelled || !result.success) return;
+          setPoints((result.samples || []).map(s => ({ ts: s.ts, handles: s.handles, threads: s.threads })));
+        });
+    };
+
+    setPoints([]);
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pid, name]);
+
+  if (handles === undefined && threads === undefined) {
+    return (
+      <div className="text-[10px] font-mono text-gray-600">Handle count not readable for this process</div>
+    );
+  }
+
+  const hasSeries = points.some(p => p.handles !== null);
+
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+        <span title="Open handles (Windows) / file descriptors (Linux)">
+          HANDLES: <span className="text-gray-300">{handles ?? '—'}</span>
+        </span>
+        <span>
+          THREADS: <span className="text-gray-300">{threads ?? '—'}</span>
+        </span>
+        {handleLeak && (
+          <span
+            className={handleLeak.isLeak ? 'text-red-400 font-bold' : 'text-gray-300'}
+            title={`R² ${handleLeak.rSquared.toFixed(2)}, confidence ${(handleLeak.confidence * 100).toFixed(0)}%`}
+          >
+            {handleLeak.growthPerHour >= 0 ? '+' : ''}{handleLeak.growthPerHour.toFixed(0)}/h
+          </span>
+        )}
+      </div>
+
+      {hasSeries ? (
+        <div className="h-10">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+              <YAxis hide domain={['dataMin', 'dataMax']} yAxisId="handles" />
+              <YAxis hide domain={['dataMin', 'dataMax']} yAxisId="threads" />
+              <Line
+                yAxisId="threads"
+                type="monotone"
+                dataKey="threads"
+                stroke="#6B7280"
+                strokeWidth={1}
+                dot={false}
+                isAnimationActive={false}
+                connectNulls
+              />
+              <Line
+                yAxisId="handles"
+                type="monotone"
+                dataKey="handles"
+                stroke={handleLeak?.isLeak ? '#F87171' : '#A855F7'}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="text-[10px] font-mono text-gray-600">Collecting history...</div>
+      )}
+    </div>
+  );
+};
+
+export default HandleTrendSparkline;
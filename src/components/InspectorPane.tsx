@@ -1,4 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { SubtreeTotals, NetworkSummary, RuleFinding } from '../types';
+import { AppGroup, formatBytes } from '../utils/appGroups';
+import ProcessNetworkPanel from './ProcessNetworkPanel';
+import ProcessChatPanel from './ProcessChatPanel';
 
 interface Process {
   pid: number;
@@ -8,19 +12,67 @@ interface Process {
   memVirtual?: number; // Virtual memory in bytes
   command?: string;
   user?: string;
+  subtree?: SubtreeTotals;
+  net?: NetworkSummary;
+  exePath?: string;
+  exePathUnverified?: boolean;
+  commandLine?: string;
+  exeHash?: string;
+  identity?: string | null;
+  findings?: RuleFinding[];
   analysis?: {
     risk_level: string;
     description: string;
     recommendation: string; // "Terminate", "Keep", "Investigate" etc.
+    source?: 'rules'; // Risk level set by a critical local rule finding
+    ai_risk_level?: string;
+    stale?: boolean; // Past the re-check interval for its risk level
+    last_updated?: string; // SQLite timestamp, UTC
   };
 }
 
 interface Props {
   process: Process | null;
+  group?: AppGroup | null; // Application the selected process belongs to
+  onSelect?: (pid: number) => void;
   onTrack: (pid: number) => void;
 }
 
-const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
+// last_updated comes from SQLite as 'YYYY-MM-DD HH:MM:SS' in UTC
+const formatAnalysisAge = (lastUpdated?: string) => {
+  const updated = lastUpdated ? Date.parse(`${lastUpdated.replace(' ', 'T')}Z`) : NaN;
+  if (Number.isNaN(updated)) return 'at an unknown time';
+  const days = Math.floor((Date.now() - updated) / (24 * 60 * 60 * 1000));
+  return days < 1 ? 'less than a day ago' : `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+interface RuleFindingListProps {
+  findings?: RuleFinding[];
+}
+
+const RuleFindingList: React.FC<RuleFindingListProps> = ({ findings }) => {
+  if (!findings || findings.length === 0) return null;
+
+  return (
+    <ul className="mb-3 space-y-1 w-full">
+      {findings.map(finding => (
+        <li
+          key={finding.rule}
+          className={`text-[11px] font-mono px-2 py-1 rounded border
+            ${finding.severity === 'critical' ? 'bg-risk-crit/10 border-risk-crit/50 text-risk-crit' : 'bg-risk-warn/10 border-risk-warn/50 text-risk-warn'}
+          `}
+          title={finding.rule}
+        >
+          {finding.severity === 'critical' ? '⚠ ' : ''}{finding.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const InspectorPane: React.FC<Props> = ({ process, group, onSelect, onTrack }) => {
+  const [showChat, setShowChat] = useState(false);
+
   if (!process) {
     return (
       <div className="h-64 bg-tech-black border-t border-tech-gray p-6 flex items-center justify-center">
@@ -86,11 +138,58 @@ const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
                      {process.analysis.risk_level}
                  </span>
              )}
+             {process.analysis?.source === 'rules' && (
+                 <span
+                     className="text-[10px] font-mono text-gray-500 tracking-wider uppercase"
+                     title="Risk level set by local rules, not the AI"
+                 >
+                     RULES{process.analysis.ai_risk_level && ` · AI: ${process.analysis.ai_risk_level}`}
+                 </span>
+             )}
+             {process.analysis?.stale && (
+                 <span
+                     className="text-[10px] font-mono px-2 py-0.5 rounded border border-dashed border-risk-warn/60 text-risk-warn tracking-wider uppercase"
+                     title={`Analyzed ${formatAnalysisAge(process.analysis.last_updated)}, past the re-check interval for ${process.analysis.risk_level}. Use Refresh Stale to re-analyze.`}
+                 >
+                     STALE
+                 </span>
+             )}
           </h2>
           <div className="text-xs font-mono text-neon-blue/60 mt-1 flex gap-4">
               <span>PID: <span className="text-white">{process.pid}</span></span>
               <span>USER: <span className="text-white">{process.user || 'SYSTEM'}</span></span>
+              {group && group.count > 1 && (
+                  <span title="All instances of this application">
+                      APP: <span className="text-white">{group.count} instances · {formatBytes(group.mem)}</span>
+                  </span>
+              )}
           </div>
+          <div className="text-[10px] font-mono text-gray-500 mt-1 flex gap-4 max-w-2xl">
+              <span className="truncate" title={process.commandLine || process.exePath}>
+                  PATH: <span className="text-gray-300">{process.exePath || 'UNKNOWN'}</span>
+                  {process.exePathUnverified && (
+                      <span className="text-risk-warn ml-1" title="Taken from the command line; the executable of another user's process can't be read">(CLAIMED)</span>
+                  )}
+              </span>
+              <span className="shrink-0" title={process.exeHash ? `SHA-256 ${process.exeHash}` : 'Cached analysis is matched on this hash'}>
+                  SHA256: <span className="text-gray-300">
+                      {process.exeHash ? process.exeHash.slice(0, 12) : process.identity === null ? 'HASHING...' : 'UNAVAILABLE'}
+                  </span>
+              </span>
+          </div>
+          {group && group.count > 1 && (
+              <select
+                  value={process.pid}
+                  onChange={(e) => onSelect?.(Number(e.target.value))}
+                  className="mt-2 bg-tech-black/50 border border-tech-gray rounded px-2 py-0.5 text-[10px] font-mono text-neon-blue focus:outline-none focus:border-neon-blue cursor-pointer"
+              >
+                  {group.instances.map((instance, idx) => (
+                      <option key={instance.pid} value={instance.pid}>
+                          #{idx + 1} PID {instance.pid} · {(instance.mem / 1024 / 1024).toFixed(0)} MB · {instance.cpu.toFixed(1)}%
+                      </option>
+                  ))}
+              </select>
+          )}
         </div>
         
         <button
@@ -165,11 +264,26 @@ const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
                         </div>
                     )}
                     
+                    {/* Process Tree Totals */}
+                    {process.subtree && process.subtree.count > 1 && (
+                        <div className="group" title="Totals for this process and all of its descendants">
+                            <div className="flex justify-between text-xs text-gray-400 mb-1 font-mono">
+                                <span>Subtree ({process.subtree.count} proc)</span>
+                                <span className="text-white group-hover:text-neon-cyan transition-colors">
+                                    {(process.subtree.memRss / 1024 / 1024).toFixed(0)} MB · {process.subtree.cpu.toFixed(1)}%
+                                </span>
+                            </div>
+                        </div>
+                    )}
+                    
                     {/* Info note */}
                     <div className="text-[9px] text-gray-600 leading-tight pt-1 border-t border-gray-800/50">
                         <span className="opacity-70">Note: RSS ≈ Task Manager's Working Set</span>
                     </div>
                 </div>
+
+                {/* Network Section */}
+                <ProcessNetworkPanel pid={process.pid} summary={process.net} />
             </div>
         </div>
 
@@ -178,8 +292,22 @@ const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
             <h3 className="text-[10px] font-mono font-bold text-white uppercase tracking-widest mb-2 flex items-center gap-2 shrink-0">
                 Ai Analysis Matrix
                 {process.analysis && <span className="w-1.5 h-1.5 bg-neon-safe rounded-full animate-ping"></span>}
+                <button
+                    onClick={() => setShowChat(!showChat)}
+                    className={`ml-auto px-2 py-0.5 rounded border text-[9px] tracking-widest transition-colors
+                        ${showChat ? 'border-neon-cyan text-neon-cyan' : 'border-gray-700 text-gray-500 hover:text-white'}
+                    `}
+                    title="Ask follow-up questions about this process"
+                >
+                    {showChat ? 'VERDICT' : 'ASK AI'}
+                </button>
             </h3>
             
+            {showChat ? (
+                <div className="flex-1 min-h-0 bg-tech-gray/20 rounded border border-white/5 p-3">
+                    <ProcessChatPanel pid={process.pid} name={process.name} identity={process.identity} />
+                </div>
+            ) : (
             <div className="flex-1 bg-tech-gray/20 rounded border border-white/5 p-4 flex gap-6 relative overflow-y-auto scrollbar-thin scrollbar-thumb-tech-gray scrollbar-track-transparent">
                 {/* Background Decor */}
                 <div className="absolute top-0 right-0 p-10 opacity-5 pointer-events-none">
@@ -189,6 +317,7 @@ const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
                 {process.analysis ? (
                     <>
                         <div className="flex-1 z-10">
+                            <RuleFindingList findings={process.findings} />
                             <p className="text-sm text-gray-300 leading-relaxed font-light border-l-2 border-neon-blue/30 pl-3">
                                 {process.analysis.description}
                             </p>
@@ -203,11 +332,13 @@ const InspectorPane: React.FC<Props> = ({ process, onTrack }) => {
                         </div>
                     </>
                 ) : (
-                    <div className="flex items-center justify-center w-full h-full text-gray-600 font-mono text-xs">
-                        <span className="animate-spin mr-3">⟳</span> INITIATING NEURAL SCAN...
+                    <div className="flex flex-col items-center justify-center w-full h-full text-gray-600 font-mono text-xs">
+                        <RuleFindingList findings={process.findings} />
+                        <div><span className="animate-spin mr-3 inline-block">⟳</span> INITIATING NEURAL SCAN...</div>
                     </div>
                 )}
             </div>
+            )}
         </div>
       </div>
     </div>
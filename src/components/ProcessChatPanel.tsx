@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessChatMessage } from '../types';
+
+interface Props {
+  pid: number;
+  name: string;
+  identity?: string | null; // Transcript key with the name; null while the executable is being hashed
+}
+
+const SUGGESTIONS = [
+  'Why is it using this much memory?',
+  'Is it safe to kill right now?',
+  'What does this program do?'
+];
+
+const ProcessChatPanel: React.FC<Props> = ({ pid, name, identity }) => {
+  const [messages, setMessages] = useState<ProcessChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Answers that arrive after switching to another process must not land in its transcript
+  const chatKey = `${name}|${identity ?? ''}`;
+  const chatKeyRef = useRef(chatKey);
+  chatKeyRef.current = chatKey;
+
+  useEffect(() => {
+    setMessages([]);
+    setError(null);
+    if (identity === null || identity === undefined) return;
+
+    let cancelled = false;
+    window.ipcRenderer.invoke('get-process-chat', { processName: name, identity }).then((result: { success: boolean; messages?: ProcessChatMessage[] }) => {
+      if (!cancelled && result.success) {
+        setMessages(result.messages || []);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [name, identity]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, isSending]);
+
+  const handleSend = async (text: string) => {
+    if (!text.trim() || isSending) return;
+    const key = chatKey;
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const result = await window.ipcRenderer.invoke('send-process-chat', { pid, question: text });
+      if (chatKeyRef.current !== key) return;
+      if (result.success) {
+        setMessages(prev => [...prev, ...result.messages]);
+        setQuestion('');
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      if (chatKeyRef.current === key) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (identity === null || identity === undefined) return;
+    const result = await window.ipcRenderer.invoke('clear-process-chat', { processName: name, identity });
+    if (result.success) setMessages([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend(question);
+    }
+  };
+
+  if (identity === null) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-600 font-mono text-xs">
+        <span className="animate-spin mr-3">⟳</span> Identifying executable...
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0 font-mono">
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1 scrollbar-thin scrollbar-thumb-tech-gray scrollbar-track-transparent">
+        {messages.length === 0 && !isSending && (
+          <div className="text-xs text-gray-500">
+            <div className="mb-2">Ask about {name}. Answers use its live metrics, recent history and cached analysis.</div>
+            <div className="flex flex-wrap gap-1">
+              {SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => handleSend(suggestion)}
+                  className="px-2 py-0.5 text-[10px] rounded border border-gray-700 text-gray-400 hover:text-white hover:border-neon-cyan/50"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {messages.map((message, idx) => (
+          <div key={message.id ?? idx} className={`text-xs leading-relaxed ${message.role === 'user' ? 'text-neon-cyan' : 'text-gray-300'}`}>
+            <span className="text-gray-600 mr-2 select-none">{message.role === 'user' ? '>' : '$'}</span>
+            <span className="whitespace-pre-wrap" title={message.model ? `${message.provider} · ${message.model}` : undefined}>
+              {message.content}
+            </span>
+          </div>
+        ))}
+        {isSending && (
+          <div className="text-xs text-gray-500">
+            <span className="animate-spin mr-2 inline-block">⟳</span> Thinking...
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {error && <div className="text-[10px] text-risk-crit mt-1 truncate" title={error}>{error}</div>}
+
+      <div className="flex gap-2 mt-2 shrink-0">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={1}
+          placeholder="Ask a follow-up..."
+          disabled={isSending}
+          className="flex-1 resize-none bg-tech-black/50 border border-tech-gray rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-neon-cyan disabled:opacity-50"
+        />
+        <button
+          onClick={() => handleSend(question)}
+          disabled={isSending || !question.trim()}
+          className="px-3 text-[10px] font-bold uppercase tracking-wider rounded border border-neon-cyan/50 text-neon-cyan hover:bg-neon-cyan/10 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+        {messages.length > 0 && (
+          <button
+            onClick={handleClear}
+            disabled={isSending}
+            className="px-2 text-[10px] uppercase tracking-wider rounded border border-gray-700 text-gray-500 hover:text-white disabled:opacity-40"
+            title="Delete this process's conversation"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProcessChatPanel;
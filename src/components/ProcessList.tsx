@@ -1,38 +1,212 @@
 import React from 'react';
 
 import { Process, FilterOptions } from '../types';
+import { indexProcessTree } from '../utils/processTree';
+import { AppGroup, groupByApplication, groupLabel, formatBytes } from '../utils/appGroups';
 
 interface Props {
-  processes: Process[];
+  processes: Process[]; // Every PID, grouped by application in the list view
   selectedPid: number | null;
   onSelect: (pid: number) => void;
   filters: FilterOptions;
   onFilterChange: (filters: FilterOptions) => void;
 }
 
+interface TreeRow {
+  process: Process;
+  depth: number;
+  hasChildren: boolean;
+  isExpanded: boolean;
+}
+
 const ProcessList: React.FC<Props> = ({ processes, selectedPid, onSelect, filters, onFilterChange }) => {
   const { searchTerm, riskFilter, minCpu, minMem } = filters;
+  const [viewMode, setViewMode] = React.useState<'list' | 'tree'>('list');
+  const [expanded, setExpanded] = React.useState<Set<number>>(new Set());
+  const [expandedGroups, setExpandedGroups] = React.useState<Set<string>>(new Set());
   
   const updateFilter = (key: keyof FilterOptions, value: any) => {
     onFilterChange({ ...filters, [key]: value });
   };
 
-  const filteredProcesses = React.useMemo(() => {
-    return processes.filter(p => {
-      const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesRisk = riskFilter === 'All' || p.analysis?.risk_level === riskFilter;
-      const matchesCpu = p.cpu >= minCpu;
-      const matchesMem = (p.mem / 1024 / 1024) >= minMem;
-      return matchesSearch && matchesRisk && matchesCpu && matchesMem;
+  const matchesFilters = React.useCallback((p: Process) => {
+    const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesRisk = riskFilter === 'All' || p.analysis?.risk_level === riskFilter;
+    const matchesCpu = p.cpu >= minCpu;
+    const matchesMem = (p.mem / 1024 / 1024) >= minMem;
+    return matchesSearch && matchesRisk && matchesCpu && matchesMem;
+  }, [searchTerm, riskFilter, minCpu, minMem]);
+
+  // Groups are filtered on their aggregate, so an app with many small instances still passes MIN MEM
+  const groups = React.useMemo(() => groupByApplication(processes), [processes]);
+  const filteredGroups = React.useMemo(() => {
+    return groups.filter(g => matchesFilters({ ...g.primary, name: g.name, cpu: g.cpu, mem: g.mem, analysis: g.analysis }));
+  }, [groups, matchesFilters]);
+
+  // Flatten the visible part of the tree into rows
+  // While filtering, matches are shown together with their ancestors and the path is expanded
+  const treeRows = React.useMemo(() => {
+    if (viewMode !== 'tree') return [];
+
+    const { roots, children } = indexProcessTree(processes);
+    const isFiltering = searchTerm !== '' || riskFilter !== 'All' || minCpu > 0 || minMem > 0;
+    const visible = new Set<number>();
+
+    const markVisible = (p: Process): boolean => {
+      let keep = matchesFilters(p);
+      for (const child of children.get(p.pid) || []) {
+        if (markVisible(child)) keep = true;
+      }
+      if (keep) visible.add(p.pid);
+      return keep;
+    };
+    if (isFiltering) roots.forEach(markVisible);
+
+    const rows: TreeRow[] = [];
+    const walk = (p: Process, depth: number) => {
+      if (isFiltering && !visible.has(p.pid)) return;
+      const kids = children.get(p.pid) || [];
+      const isExpanded = isFiltering || expanded.has(p.pid);
+      rows.push({ process: p, depth, hasChildren: kids.length > 0, isExpanded });
+      if (isExpanded) kids.forEach(child => walk(child, depth + 1));
+    };
+    roots.forEach(root => walk(root, 0));
+
+    return rows;
+  }, [viewMode, processes, expanded, matchesFilters, searchTerm, riskFilter, minCpu, minMem]);
+
+  const toggleExpanded = (pid: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(pid)) {
+        next.delete(pid);
+      } else {
+        next.add(pid);
+      }
+      return next;
     });
-  }, [processes, searchTerm, riskFilter, minCpu, minMem]);
+  };
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderGroup = (group: AppGroup) => {
+    if (group.count === 1) {
+      return renderRow(group.primary);
+    }
+
+    const isExpanded = expandedGroups.has(group.key);
+    const containsSelected = group.instances.some(p => p.pid === selectedPid);
+
+    return (
+      <React.Fragment key={`group-${group.key}`}>
+        {renderRow(
+          { ...group.primary, name: groupLabel(group), cpu: group.cpu, mem: group.mem, analysis: group.analysis },
+          { depth: 0, hasChildren: true, isExpanded },
+          { key: `group-${group.key}`, onToggle: () => toggleGroup(group.key), highlighted: containsSelected && !isExpanded, pidLabel: `${group.count} PIDS` }
+        )}
+        {isExpanded && group.instances.map(p => renderRow(p, { depth: 1, hasChildren: false, isExpanded: false }))}
+      </React.Fragment>
+    );
+  };
+
+  const renderRow = (
+    p: Process,
+    tree?: Omit<TreeRow, 'process'>,
+    groupRow?: { key: string; onToggle: () => void; highlighted: boolean; pidLabel: string }
+  ) => {
+    let statusColor = 'bg-gray-700';
+    if (p.analysis?.risk_level === 'SystemCritical') statusColor = 'bg-neon-blue shadow-[0_0_8px_#00BFFF]';
+    if (p.analysis?.risk_level === 'Safe') statusColor = 'bg-risk-safe shadow-[0_0_5px_#39FF14]';
+    if (p.analysis?.risk_level === 'Bloat') statusColor = 'bg-risk-warn shadow-[0_0_5px_#FFD700]';
+    if (p.analysis?.risk_level === 'Critical') statusColor = 'bg-risk-crit shadow-[0_0_8px_#FF4500] animate-pulse';
+    if (p.analysis?.risk_level === 'Unknown') statusColor = 'bg-gray-600';
+
+    const isSelected = groupRow ? groupRow.highlighted : selectedPid === p.pid;
+    const showSubtree = !groupRow && tree?.hasChildren && p.subtree;
+    const toggle = groupRow ? groupRow.onToggle : () => toggleExpanded(p.pid);
+
+    return (
+      <div
+        key={groupRow ? groupRow.key : p.pid}
+        onClick={() => onSelect(p.pid)}
+        style={tree ? { paddingLeft: `${8 + tree.depth * 12}px` } : undefined}
+        className={`group flex items-center gap-3 p-2 cursor-pointer border-l-2 border-b border-b-tech-gray/50 transition-all duration-200 hover:bg-white/5 ${
+          isSelected 
+            ? 'bg-neon-blue/10 border-l-neon-blue border-b-neon-blue/30' 
+            : 'border-l-transparent'
+        }`}
+      >
+        {/* Expand Toggle (tree view) */}
+        {tree && (
+          <button
+            onClick={(e) => { e.stopPropagation(); toggle(); }}
+            disabled={!tree.hasChildren}
+            className="w-3 text-[10px] text-gray-500 hover:text-neon-blue disabled:invisible shrink-0 -mr-2"
+          >
+            {tree.isExpanded ? '▾' : '▸'}
+          </button>
+        )}
+
+        {/* Risk Indicator Dot */}
+        <div className={`w-1.5 h-1.5 rounded-full ${statusColor} shrink-0`} />
+
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between items-baseline mb-0.5">
+            <span className={`truncate font-bold max-w-[160px] ${isSelected ? 'text-white' : 'text-gray-300 group-hover:text-white'}`} title={p.name}>
+              {p.name}
+            </span>
+            <span className="text-[10px] text-gray-600 group-hover:text-neon-blue/70">{groupRow ? groupRow.pidLabel : p.pid}</span>
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+            <span className={p.cpu > 10 ? 'text-risk-warn' : ''}>CPU: {p.cpu.toFixed(1).padStart(4, '0')}%</span>
+            {groupRow ? (
+              <span title="Total Working Set (RSS) over all instances">MEM: {formatBytes(p.mem)}</span>
+            ) : (
+              <span title="Working Set (RSS) - approximate memory in RAM">MEM: {(p.mem / 1024 / 1024).toFixed(0).padStart(4, ' ')}MB</span>
+            )}
+          </div>
+          {showSubtree && (
+            <div className="flex justify-between text-[10px] text-neon-blue/60 font-mono" title="Totals for this process and all of its descendants">
+              <span>Σ {p.subtree!.count} PROC · {p.subtree!.cpu.toFixed(1)}%</span>
+              <span>{(p.subtree!.memRss / 1024 / 1024).toFixed(0)}MB</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="h-full bg-tech-black/90 flex flex-col font-mono text-xs">
       <div className="p-3 border-b border-tech-gray bg-tech-gray/30 text-white font-bold tracking-wider uppercase text-[10px] flex flex-col gap-3">
         <div className="flex justify-between items-center">
           <span>Process Stream</span>
-          <span className="text-text-dim text-[9px]">{filteredProcesses.length}/{processes.length} ACTV</span>
+          <div className="flex items-center gap-2">
+            <div className="flex border border-tech-gray rounded overflow-hidden">
+              {(['list', 'tree'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-1.5 py-0.5 text-[9px] ${viewMode === mode ? 'bg-neon-blue/20 text-neon-blue' : 'text-text-dim hover:text-white'}`}
+                >
+                  {mode.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <span className="text-text-dim text-[9px]">
+              {viewMode === 'tree' ? `${treeRows.length}/${processes.length} ACTV` : `${filteredGroups.length}/${groups.length} APPS`}
+            </span>
+          </div>
         </div>
 
         {/* Controls */}
@@ -95,44 +269,9 @@ const ProcessList: React.FC<Props> = ({ processes, selectedPid, onSelect, filter
         </div>
       </div>
       <div className="flex-1 min-h-0 overflow-y-auto overflow-x-hidden scrollbar-thin scrollbar-thumb-tech-gray scrollbar-track-transparent">
-        {filteredProcesses.map((p) => {
-           let statusColor = 'bg-gray-700';
-           if (p.analysis?.risk_level === 'SystemCritical') statusColor = 'bg-neon-blue shadow-[0_0_8px_#00BFFF]';
-           if (p.analysis?.risk_level === 'Safe') statusColor = 'bg-risk-safe shadow-[0_0_5px_#39FF14]';
-           if (p.analysis?.risk_level === 'Bloat') statusColor = 'bg-risk-warn shadow-[0_0_5px_#FFD700]';
-           if (p.analysis?.risk_level === 'Critical') statusColor = 'bg-risk-crit shadow-[0_0_8px_#FF4500] animate-pulse';
-           if (p.analysis?.risk_level === 'Unknown') statusColor = 'bg-gray-600';
-
-           const isSelected = selectedPid === p.pid;
-
-           return (
-            <div
-              key={p.pid}
-              onClick={() => onSelect(p.pid)}
-              className={`group flex items-center gap-3 p-2 cursor-pointer border-l-2 border-b border-b-tech-gray/50 transition-all duration-200 hover:bg-white/5 ${
-                isSelected 
-                  ? 'bg-neon-blue/10 border-l-neon-blue border-b-neon-blue/30' 
-                  : 'border-l-transparent'
-              }`}
-            >
-              {/* Risk Indicator Dot */}
-              <div className={`w-1.5 h-1.5 rounded-full ${statusColor} shrink-0`} />
-
-              <div className="flex-1 min-w-0">
-                <div className="flex justify-between items-baseline mb-0.5">
-                  <span className={`truncate font-bold max-w-[160px] ${isSelected ? 'text-white' : 'text-gray-300 group-hover:text-white'}`} title={p.name}>
-                    {p.name}
-                  </span>
-                  <span className="text-[10px] text-gray-600 group-hover:text-neon-blue/70">{p.pid}</span>
-                </div>
-                <div className="flex justify-between text-[10px] text-gray-500 font-mono">
-                  <span className={p.cpu > 10 ? 'text-risk-warn' : ''}>CPU: {p.cpu.toFixed(1).padStart(4, '0')}%</span>
-                  <span title="Working Set (RSS) - approximate memory in RAM">MEM: {(p.mem / 1024 / 1024).toFixed(0).padStart(4, ' ')}MB</span>
-                </div>
-              </div>
-            </div>
-          );
-        })}
+        {viewMode === 'tree'
+          ? treeRows.map(({ process, ...tree }) => renderRow(process, tree))
+          : filteredGroups.map(renderGroup)}
       </div>
     </div>
   );
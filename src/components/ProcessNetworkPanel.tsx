@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { NetworkSummary, ProcessConnection } from '../types';
+
+interface Props {
+  pid: number;
+  summary?: NetworkSummary;
+}
+
+const MAX_ENDPOINTS = 12;
+
+function formatEndpoint(address: string, port: number | null): string {
+  const host = address.includes(':') ? `[${address}]` : address; // IPv6
+  return port !== null ? `${host}:${port}` : host;
+}
+
+const ProcessNetworkPanel: React.FC<Props> = ({ pid, summary }) => {
+  const [connections, setConnections] = useState<ProcessConnection[]>([]);
+
+  // Only the summary streams with process updates, fetch the sockets when it changes
+  const summaryKey = summary ? JSON.stringify(summary) : '';
+
+  useEffect(() => {
+    if (!summaryKey) {
+      setConnections([]);
+      return;
+    }
+
+    let cancelled = false;
+    window.ipcRenderer.invoke('get-process-connections', pid).then((result: { success: boolean; connections?: ProcessConnection[] }) => {
+      if (!cancelled && result.success) {
+        setConnections(result.connections || []);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pid, summaryKey]);
+
+  const listening = connections.filter(c => c.listening);
+  const remote = connections.filter(c => !c.listening && c.peerAddress);
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-gray-800">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Network</span>
+        {summary && (
+          <span className="text-[10px] font-mono text-gray-500">
+            {summary.listeningPorts.length} listen · {summary.remoteHosts} remote
+          </span>
+        )}
+      </div>
+
+      {!summary ? (
+        <div className="text-[10px] font-mono text-gray-600">No open sockets</div>
+      ) : (
+        <>
+          {listening.length > 0 && (
+            <div className="text-[10px] font-mono">
+              <div className="text-gray-500 mb-1">Listening</div>
+              {listening.map((c, idx) => (
+                <div key={`l-${idx}`} className="flex justify-between text-gray-300">
+                  <span>{formatEndpoint(c.localAddress, c.localPort)}</span>
+                  <span className="text-gray-600 uppercase">{c.protocol}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {remote.length > 0 && (
+            <div className="text-[10px] font-mono">
+              <div className="text-gray-500 mb-1">Remote Endpoints</div>
+              {remote.slice(0, MAX_ENDPOINTS).map((c, idx) => (
+                <div key={`r-${idx}`} className="flex justify-between text-gray-300" title={c.state}>
+                  <span className={c.loopback ? 'text-gray-500' : ''}>{formatEndpoint(c.peerAddress, c.peerPort)}</span>
+                  <span className="text-gray-600 uppercase">{c.protocol}</span>
+                </div>
+              ))}
+              {remote.length > MAX_ENDPOINTS && (
+                <div className="text-gray-600">+{remote.length - MAX_ENDPOINTS} more</div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProcessNetworkPanel;
@@ -1,15 +1,90 @@
 import React, { useState, useEffect } from 'react';
 
+interface HistoryRetention {
+  rawMinutes: number;
+  minuteHours: number;
+  hourDays: number;
+}
+
+interface LocalProviderSettings {
+  apiStyle: 'ollama' | 'openai';
+  baseUrl: string;
+  timeoutMs: number;
+  apiKey?: string;
+}
+
+// One row of the provider chain (electron/utils/providerChain.ts) plus its readiness
+interface ProviderStatus {
+  id: 'openrouter' | 'gemini' | 'local';
+  name: string;
+  enabled: boolean;
+  model: string;
+  params: Record<string, unknown>;
+  contextTokens: number;
+  maxOutputTokens: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxConcurrent: number;
+  ready: boolean;
+}
+
+// electron/services/UsageService.ts; prices are USD per million tokens, keyed by model
+interface UsageSettings {
+  monthlyBudgetUsd: number;
+  prices: Record<string, { inputPerMTok: number; outputPerMTok: number }>;
+}
+
+// Hours per risk level, 0 = never expires (electron/utils/analysisExpiry.ts)
+type AnalysisTtl = Record<'Unknown' | 'Critical' | 'Bloat' | 'Safe' | 'SystemCritical', number>;
+
+const TTL_LEVELS: [keyof AnalysisTtl, string][] = [
+  ['Unknown', 'Unknown'],
+  ['Critical', 'Critical'],
+  ['Bloat', 'Bloat'],
+  ['Safe', 'Safe'],
+  ['SystemCritical', 'System'],
+];
+
+type PromptKind = 'standard' | 'devmode';
+
+// get-prompt-templates (electron/services/PromptTemplateService.ts) plus stale cache counts
+interface PromptTemplatesState {
+  osName: string;
+  placeholders: string[];
+  templates: Record<PromptKind, { builtIn: string; override: string | null; version: string }>;
+  outdated: Record<PromptKind, number>;
+}
+
+const PROMPT_KINDS: [PromptKind, string][] = [['standard', 'Standard'], ['devmode', 'Dev Mode']];
+
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   devModeEnabled?: boolean;
   onDevModeChange?: (enabled: boolean) => void;
+  onReanalyzeOutdated?: () => void;
 }
 
-const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = false, onDevModeChange }) => {
+const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = false, onDevModeChange, onReanalyzeOutdated }) => {
   const [geminiApiKey, setGeminiApiKey] = useState('');
   const [openRouterApiKey, setOpenRouterApiKey] = useState('');
+  const [retention, setRetention] = useState<HistoryRetention>({ rawMinutes: 60, minuteHours: 24, hourDays: 30 });
+  const [pollSeconds, setPollSeconds] = useState(2);
+  const [localProvider, setLocalProvider] = useState<LocalProviderSettings>({
+    apiStyle: 'ollama', baseUrl: 'http://localhost:11434', timeoutMs: 120000
+  });
+  const [localTestStatus, setLocalTestStatus] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderStatus[]>([]);
+  const [paramsText, setParamsText] = useState<Record<string, string>>({}); // Raw JSON per provider while editing
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [monthlyBudget, setMonthlyBudget] = useState(0);
+  const [pricesText, setPricesText] = useState(''); // Raw JSON while editing
+  const [usageError, setUsageError] = useState<string | null>(null);
+  const [analysisTtl, setAnalysisTtl] = useState<AnalysisTtl | null>(null);
+  const [promptState, setPromptState] = useState<PromptTemplatesState | null>(null);
+  const [promptKind, setPromptKind] = useState<PromptKind>('standard');
+  const [promptText, setPromptText] = useState<Record<PromptKind, string>>({ standard: '', devmode: '' });
+  const [promptError, setPromptError] = useState<string | null>(null);
   const [saved, setSaved] = useState(false);
 
   useEffect(() => {
@@ -22,16 +97,121 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = fals
         window.ipcRenderer.invoke('get-openrouter-api-key').then((key: string) => {
             if (key) setOpenRouterApiKey(key);
         });
+        window.ipcRenderer.invoke('get-history-retention').then((config: HistoryRetention) => {
+            if (config) setRetention(config);
+        });
+        window.ipcRenderer.invoke('get-poll-interval').then((intervalMs: number) => {
+            if (intervalMs) setPollSeconds(intervalMs / 1000);
+        });
+        window.ipcRenderer.invoke('get-local-provider').then((settings: LocalProviderSettings) => {
+            if (settings) setLocalProvider(settings);
+        });
+        window.ipcRenderer.invoke('get-provider-chain').then((chain: ProviderStatus[]) => {
+            if (!chain) return;
+            setProviders(chain);
+            setParamsText(Object.fromEntries(chain.map(p => [p.id, Object.keys(p.params).length > 0 ? JSON.stringify(p.params) : ''])));
+        });
+        window.ipcRenderer.invoke('get-usage-settings').then((settings: UsageSettings) => {
+            if (!settings) return;
+            setMonthlyBudget(settings.monthlyBudgetUsd);
+            setPricesText(JSON.stringify(settings.prices, null, 1));
+        });
+        window.ipcRenderer.invoke('get-analysis-ttl').then((ttl: AnalysisTtl) => {
+            if (ttl) setAnalysisTtl(ttl);
+        });
+        window.ipcRenderer.invoke('get-prompt-templates').then((state: PromptTemplatesState) => {
+            if (!state) return;
+            setPromptState(state);
+            setPromptText({
+              standard: state.templates.standard.override ?? state.templates.standard.builtIn,
+              devmode: state.templates.devmode.override ?? state.templates.devmode.builtIn
+            });
+        });
+        setLocalTestStatus(null);
+        setProviderError(null);
+        setUsageError(null);
+        setPromptError(null);
     }
   }, [isOpen]);
 
   const handleSave = async () => {
+    // Validate extra params before anything is written
+    const chain: Omit<ProviderStatus, 'name' | 'ready'>[] = [];
+    for (const provider of providers) {
+      const text = paramsText[provider.id]?.trim();
+      let params: Record<string, unknown> = {};
+      if (text) {
+        try {
+          params = JSON.parse(text);
+        } catch {
+          setProviderError(`${provider.name} params are not valid JSON`);
+          return;
+        }
+        if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+          setProviderError(`${provider.name} params must be a JSON object`);
+          return;
+        }
+      }
+      chain.push({
+        id: provider.id,
+        enabled: provider.enabled,
+        model: provider.model,
+        params,
+        contextTokens: provider.contextTokens,
+        maxOutputTokens: provider.maxOutputTokens,
+        requestsPerMinute: provider.requestsPerMinute,
+        tokensPerMinute: provider.tokensPerMinute,
+        maxConcurrent: provider.maxConcurrent
+      });
+    }
+    setProviderError(null);
+
+    let prices: UsageSettings['prices'];
+    try {
+      prices = JSON.parse(pricesText || '{}');
+    } catch {
+      setUsageError('Price table is not valid JSON');
+      return;
+    }
+    if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+      setUsageError('Price table must be a JSON object');
+      return;
+    }
+    setUsageError(null);
+
+    // Text identical to the built-in template is saved as "no override", so it follows app updates
+    const overrides: Partial<Record<PromptKind, string>> = {};
+    for (const [kind, label] of PROMPT_KINDS) {
+      const text = promptText[kind];
+      if (!promptState || !text.trim() || text === promptState.templates[kind].builtIn) continue;
+      if (!/\{\{\s*process_data\s*\}\}/.test(text)) {
+        setPromptKind(kind);
+        setPromptError(`${label} template must contain {{process_data}}`);
+        return;
+      }
+      overrides[kind] = text;
+    }
+    setPromptError(null);
+
     // @ts-ignore
     await window.ipcRenderer.invoke('save-api-key', geminiApiKey);
     // @ts-ignore
     await window.ipcRenderer.invoke('save-openrouter-api-key', openRouterApiKey);
     // @ts-ignore
     await window.ipcRenderer.invoke('set-dev-mode', devModeEnabled);
+    await window.ipcRenderer.invoke('set-history-retention', retention);
+    if (analysisTtl) await window.ipcRenderer.invoke('set-analysis-ttl', analysisTtl);
+    await window.ipcRenderer.invoke('set-poll-interval', Math.round(pollSeconds * 1000));
+    await window.ipcRenderer.invoke('set-local-provider', localProvider);
+    await window.ipcRenderer.invoke('set-provider-chain', chain);
+    await window.ipcRenderer.invoke('set-usage-settings', { monthlyBudgetUsd: monthlyBudget, prices });
+    if (promptState) {
+      const result = await window.ipcRenderer.invoke('set-prompt-templates', overrides);
+      if (!result.success) {
+        setPromptError(result.error);
+        return;
+      }
+    }
     setSaved(true);
     setTimeout(() => {
         setSaved(false);
@@ -39,11 +219,32 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = fals
     }, 1000);
   };
 
+  const handleTestLocalProvider = async () => {
+    setLocalTestStatus('Testing...');
+    const localModel = providers.find(p => p.id === 'local')?.model;
+    const result = await window.ipcRenderer.invoke('test-local-provider', localProvider, localModel);
+    setLocalTestStatus(result.success
+      ? `OK · ${result.model} answered in ${(result.latencyMs / 1000).toFixed(1)}s`
+      : `Failed: ${result.error}`);
+  };
+
+  const updateProvider = (id: ProviderStatus['id'], changes: Partial<ProviderStatus>) => {
+    setProviders(providers.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const moveProvider = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= providers.length) return;
+    const reordered = [...providers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setProviders(reordered);
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center backdrop-blur-sm">
-      <div className="bg-gray-800 border border-gray-600 rounded-lg p-6 w-96 shadow-xl">
+      <div className="bg-gray-800 border border-gray-600 rounded-lg p-6 w-96 shadow-xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-xl font-bold text-white mb-4">Settings</h2>
         
         <div className="mb-4">
@@ -56,7 +257,7 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = fals
                 className="w-full bg-gray-900 border border-gray-700 text-white p-2 rounded focus:border-blue-500 focus:outline-none"
             />
             <p className="text-xs text-gray-500 mt-1">
-                Primary AI model. Get your key from <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">OpenRouter</a>.
+                Get your key from <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">OpenRouter</a>.
             </p>
         </div>
 
@@ -70,10 +271,259 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = fals
                 className="w-full bg-gray-900 border border-gray-700 text-white p-2 rounded focus:border-blue-500 focus:outline-none"
             />
             <p className="text-xs text-gray-500 mt-1">
-                Fallback AI model. Key stored locally.
+                Key stored locally.
             </p>
         </div>
 
+        <div className="mb-4 border-t border-gray-700 pt-4">
+          <label className="block text-gray-400 text-sm font-semibold mb-1">AI Providers</label>
+          <p className="text-xs text-gray-500 mb-2">
+            Tried top to bottom. Analysis runs as long as one enabled provider is ready.
+          </p>
+          <div className="space-y-2">
+            {providers.map((provider, index) => (
+              <div key={provider.id} className={`border rounded p-2 ${provider.enabled ? 'border-gray-600' : 'border-gray-700 opacity-60'}`}>
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-col text-[9px] leading-none">
+                    <button type="button" onClick={() => moveProvider(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:text-gray-700">▲</button>
+                    <button type="button" onClick={() => moveProvider(index, 1)} disabled={index === providers.length - 1} className="text-gray-400 hover:text-white disabled:text-gray-700">▼</button>
+                  </div>
+                  <span className="text-sm text-white flex-1">{index + 1}. {provider.name}</span>
+                  <span className={`text-[10px] ${provider.ready ? 'text-green-400' : 'text-gray-500'}`}>
+                    {provider.ready ? 'ready' : provider.id === 'local' ? 'no endpoint' : 'no key'}
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={provider.enabled}
+                    onChange={(e) => updateProvider(provider.id, { enabled: e.target.checked })}
+                    title="Enabled"
+                  />
+                </div>
+                {provider.enabled && (
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={provider.model}
+                      onChange={(e) => updateProvider(provider.id, { model: e.target.value })}
+                      placeholder="Model"
+                      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={paramsText[provider.id] || ''}
+                      onChange={(e) => setParamsText({ ...paramsText, [provider.id]: e.target.value })}
+                      placeholder='Params {"temperature":0.2}'
+                      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-white p-1 text-xs font-mono rounded focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                )}
+                {provider.enabled && (
+                  <div className="flex gap-2 mt-2 items-center text-[10px] text-gray-500">
+                    <span>Context</span>
+                    <input
+                      type="number"
+                      min={1024}
+                      step={1024}
+                      value={provider.contextTokens}
+                      onChange={(e) => updateProvider(provider.id, { contextTokens: Math.max(1024, Number(e.target.value) || 1024) })}
+                      title="Model context window in tokens, used to size batches"
+                      className="w-24 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <span>Max output</span>
+                    <input
+                      type="number"
+                      min={256}
+                      step={256}
+                      value={provider.maxOutputTokens}
+                      onChange={(e) => updateProvider(provider.id, { maxOutputTokens: Math.max(256, Number(e.target.value) || 256) })}
+                      title="Longest answer the model produces, in tokens"
+                      className="w-20 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <span>tokens</span>
+                  </div>
+                )}
+                {provider.enabled && (
+                  <div className="flex gap-2 mt-2 items-center text-[10px] text-gray-500" title="Rate limits of your account or server, 0 = unlimited">
+                    <span>RPM</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={provider.requestsPerMinute}
+                      onChange={(e) => updateProvider(provider.id, { requestsPerMinute: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-14 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <span>TPM</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1000}
+                      value={provider.tokensPerMinute}
+                      onChange={(e) => updateProvider(provider.id, { tokensPerMinute: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-24 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <span>Parallel</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={provider.maxConcurrent}
+                      onChange={(e) => updateProvider(provider.id, { maxConcurrent: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                      className="w-12 bg-gray-900 border border-gray-700 text-white p-1 text-xs rounded focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {providerError && <p className="text-xs text-red-400 mt-2">{providerError}</p>}
+        </div>
+
+        <div className="mb-4 border-t border-gray-700 pt-4">
+          <label className="block text-gray-400 text-sm font-semibold mb-1">Local Endpoint</label>
+          <p className="text-xs text-gray-500 mb-2">
+            Ollama or any OpenAI-compatible server on localhost or the LAN. Process lists never leave your network.
+          </p>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={localProvider.apiStyle}
+                onChange={(e) => setLocalProvider({ ...localProvider, apiStyle: e.target.value as LocalProviderSettings['apiStyle'] })}
+                className="bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+              >
+                <option value="ollama">Ollama</option>
+                <option value="openai">OpenAI-compatible</option>
+              </select>
+              <input
+                type="text"
+                value={localProvider.baseUrl}
+                onChange={(e) => setLocalProvider({ ...localProvider, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434"
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+              />
+              <input
+                type="number"
+                min={5}
+                max={600}
+                value={localProvider.timeoutMs / 1000}
+                onChange={(e) => setLocalProvider({ ...localProvider, timeoutMs: Math.max(5, Number(e.target.value) || 5) * 1000 })}
+                title="Timeout (s)"
+                className="w-16 bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            {localProvider.apiStyle === 'openai' && (
+              <input
+                type="password"
+                value={localProvider.apiKey || ''}
+                onChange={(e) => setLocalProvider({ ...localProvider, apiKey: e.target.value })}
+                placeholder="API key (optional)"
+                className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+              />
+            )}
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleTestLocalProvider}
+                className="px-2 py-1 rounded text-xs text-gray-300 border border-gray-600 hover:bg-gray-700 transition"
+              >
+                Test Connection
+              </button>
+              {localTestStatus && <span className="text-xs text-gray-400 truncate" title={localTestStatus}>{localTestStatus}</span>}
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-4 border-t border-gray-700 pt-4">
+          <label className="block text-gray-400 text-sm font-semibold mb-1">Usage &amp; Budget</label>
+          <p className="text-xs text-gray-500 mb-2">
+            New analysis runs are blocked once the estimated cost this month reaches the budget (0 = no budget).
+          </p>
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-xs text-gray-400">Monthly budget $</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={monthlyBudget}
+              onChange={(e) => setMonthlyBudget(Math.max(0, Number(e.target.value) || 0))}
+              className="w-24 bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+          <label className="block text-[10px] text-gray-500 mb-1">Prices per model, USD per million tokens</label>
+          <textarea
+            value={pricesText}
+            onChange={(e) => setPricesText(e.target.value)}
+            rows={4}
+            placeholder='{"gpt-oss-20b":{"inputPerMTok":0.03,"outputPerMTok":0.15}}'
+            className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-xs font-mono rounded focus:border-blue-500 focus:outline-none"
+          />
+          {usageError && <p className="text-xs text-red-400 mt-1">{usageError}</p>}
+        </div>
+
+        {promptState && (
+          <div className="mb-4 border-t border-gray-700 pt-4">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-gray-400 text-sm font-semibold">Prompt Templates</label>
+              <div className="flex gap-1">
+                {PROMPT_KINDS.map(([kind, label]) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setPromptKind(kind)}
+                    className={`px-2 py-0.5 text-xs rounded border ${promptKind === kind ? 'border-blue-500 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Built-in templates are filled with {promptState.osName} context. Placeholders:{' '}
+              <span className="font-mono text-gray-400">{promptState.placeholders.map(name => `{{${name}}}`).join(' ')}</span>
+            </p>
+            <textarea
+              value={promptText[promptKind]}
+              onChange={(e) => setPromptText({ ...promptText, [promptKind]: e.target.value })}
+              rows={8}
+              spellCheck={false}
+              className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-xs font-mono rounded focus:border-blue-500 focus:outline-none"
+            />
+            <div className="flex items-center gap-2 mt-1">
+              <button
+                type="button"
+                onClick={() => setPromptText({ ...promptText, [promptKind]: promptState.templates[promptKind].builtIn })}
+                disabled={promptText[promptKind] === promptState.templates[promptKind].builtIn}
+                className="px-2 py-1 text-xs rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+              >
+                Reset to Built-in
+              </button>
+              <span className="text-[10px] text-gray-500 font-mono truncate" title="Stored on each cached analysis">
+                v {promptState.templates[promptKind].version}
+              </span>
+            </div>
+            {promptError && <p className="text-xs text-red-400 mt-1">{promptError}</p>}
+            {(() => {
+              // Re-analysis runs in the active mode, so only offer it for that mode's template
+              const activeKind: PromptKind = devModeEnabled ? 'devmode' : 'standard';
+              const outdated = promptState.outdated[activeKind];
+              if (outdated === 0) return null;
+              return (
+                <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+                  <span>{outdated} cached {devModeEnabled ? 'Dev Mode ' : ''}result{outdated === 1 ? ' was' : 's were'} made with a different template</span>
+                  {onReanalyzeOutdated && (
+                    <button
+                      type="button"
+                      onClick={onReanalyzeOutdated}
+                      className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                    >
+                      Re-analyze Outdated
+                    </button>
+                  )}
+                </div>
+              );
+            })()}
+          </div>
+        )}
+
         <div className="mb-4 flex items-center justify-between border-t border-gray-700 pt-4 mt-4">
           <div>
             <label className="block text-gray-400 text-sm font-semibold mb-1">Dev Mode</label>
@@ -96,6 +546,71 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, devModeEnabled = fals
           </button>
         </div>
 
+        <div className="mb-4 border-t border-gray-700 pt-4">
+          <label className="block text-gray-400 text-sm font-semibold mb-1">Polling Interval (s)</label>
+          <p className="text-xs text-gray-500 mb-2">
+            Slows down automatically while the window is hidden or the system is busy
+          </p>
+          <input
+            type="number"
+            min={0.5}
+            max={60}
+            step={0.5}
+            value={pollSeconds}
+            onChange={(e) => setPollSeconds(Math.min(60, Math.max(0.5, Number(e.target.value) || 0.5)))}
+            className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+
+        <div className="mb-4 border-t border-gray-700 pt-4">
+          <label className="block text-gray-400 text-sm font-semibold mb-1">History Retention</label>
+          <p className="text-xs text-gray-500 mb-2">
+            Raw samples, then per-minute and per-hour averages
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['rawMinutes', 'Raw (min)'],
+              ['minuteHours', 'Per-min (h)'],
+              ['hourDays', 'Per-hour (d)'],
+            ] as [keyof HistoryRetention, string][]).map(([key, label]) => (
+              <div key={key}>
+                <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={retention[key]}
+                  onChange={(e) => setRetention({ ...retention, [key]: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {analysisTtl && (
+          <div className="mb-4 border-t border-gray-700 pt-4">
+            <label className="block text-gray-400 text-sm font-semibold mb-1">Analysis Expiry (days)</label>
+            <p className="text-xs text-gray-500 mb-2">
+              Cached verdicts older than this are marked stale and picked up by Refresh Stale (0 = never expires)
+            </p>
+            <div className="grid grid-cols-5 gap-2">
+              {TTL_LEVELS.map(([level, label]) => (
+                <div key={level}>
+                  <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={analysisTtl[level] / 24}
+                    onChange={(e) => setAnalysisTtl({ ...analysisTtl, [level]: Math.max(0, Number(e.target.value) || 0) * 24 })}
+                    className="w-full bg-gray-900 border border-gray-700 text-white p-1.5 text-sm rounded focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex justify-end gap-2">
             <button 
                 onClick={onClose}
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { SystemSnapshot } from '../types';
+import { formatBytes } from '../utils/appGroups';
+import { memoryPressure, PressureLevel } from '../utils/systemPressure';
+
+interface Props {
+  history: SystemSnapshot[]; // Oldest first, the last entry is the current state
+}
+
+const PRESSURE_STYLES: Record<PressureLevel, string> = {
+  low: 'bg-risk-safe/10 border-risk-safe text-risk-safe',
+  moderate: 'bg-risk-warn/10 border-risk-warn text-risk-warn',
+  high: 'bg-risk-crit/10 border-risk-crit text-risk-crit'
+};
+
+const SystemOverviewPanel: React.FC<Props> = ({ history }) => {
+  const current = history.length > 0 ? history[history.length - 1] : null;
+
+  const chartData = useMemo(() => history.map(s => ({
+    ts: s.ts,
+    memPct: s.memory.total > 0 ? (s.memory.used / s.memory.total) * 100 : 0,
+    cpuPct: s.cpu.load
+  })), [history]);
+
+  if (!current) {
+    return (
+      <div className="h-28 border-b border-tech-gray px-4 flex items-center text-[10px] font-mono text-text-dim">
+        Waiting for system stats...
+      </div>
+    );
+  }
+
+  const pressure = memoryPressure(current);
+  const { memory, swap, commit } = current;
+
+  const stats: [string, string, string][] = [
+    ['Used', formatBytes(memory.used), `${((memory.used / memory.total) * 100).toFixed(0)}% of ${formatBytes(memory.total)}`],
+    ['Available', formatBytes(memory.available), `${pressure.availablePct.toFixed(0)}%`],
+    ['Cached', formatBytes(memory.cached), 'Reclaimable'],
+    ['Swap', swap.total > 0 ? formatBytes(swap.used) : 'Off', swap.total > 0 ? `of ${formatBytes(swap.total)}` : ''],
+  ];
+  if (commit) {
+    stats.push(['Commit', formatBytes(commit.committed), `${pressure.commitPct?.toFixed(0)}% of limit`]);
+  }
+
+  return (
+    <div className="h-28 border-b border-tech-gray bg-black/40 px-4 py-2 flex gap-4 font-mono shrink-0">
+      {/* Pressure Verdict + Memory Stats */}
+      <div className="flex flex-col justify-between min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-bold text-white uppercase tracking-widest">System</span>
+          <span
+            className={`text-[9px] px-1.5 py-0.5 rounded border uppercase tracking-wider ${PRESSURE_STYLES[pressure.level]}`}
+            title={pressure.advice}
+          >
+            {pressure.level} pressure
+          </span>
+        </div>
+        <div className="flex gap-4">
+          {stats.map(([label, value, detail]) => (
+            <div key={label}>
+              <div className="text-[9px] text-text-dim uppercase">{label}</div>
+              <div className="text-sm text-white">{value}</div>
+              <div className="text-[9px] text-gray-500">{detail}</div>
+            </div>
+          ))}
+        </div>
+        <div className="text-[9px] text-gray-500 truncate">{pressure.advice}</div>
+      </div>
+
+      {/* Per-core Load */}
+      <div className="flex flex-col border-l border-tech-gray pl-4">
+        <div className="text-[9px] text-text-dim uppercase mb-1">
+          CPU <span className="text-white">{current.cpu.load.toFixed(0)}%</span>
+        </div>
+        <div className="flex items-end gap-0.5 flex-1">
+          {current.cpu.cores.map((load, idx) => (
+            <div
+              key={idx}
+              className="w-1.5 h-full bg-gray-800 rounded-sm flex items-end overflow-hidden"
+              title={`Core ${idx}: ${load.toFixed(0)}%`}
+            >
+              <div className="w-full bg-neon-blue" style={{ height: `${Math.min(100, load)}%` }} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Rolling Chart */}
+      <div className="flex-1 min-w-[120px] border-l border-tech-gray pl-4 flex flex-col">
+        <div className="text-[9px] text-text-dim uppercase mb-1 flex gap-3">
+          <span><span className="text-purple-400">■</span> Memory</span>
+          <span><span className="text-neon-blue">■</span> CPU</span>
+        </div>
+        <div className="flex-1 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+              <YAxis hide domain={[0, 100]} />
+              <Tooltip
+                contentStyle={{ background: '#0a0a0a', border: '1px solid #333', fontSize: 10 }}
+                labelFormatter={(_label, payload) => payload?.[0] ? new Date(payload[0].payload.ts).toLocaleTimeString() : ''}
+                formatter={(value: number, name: string) => [`${value.toFixed(0)}%`, name === 'memPct' ? 'Memory' : 'CPU']}
+              />
+              <Area type="monotone" dataKey="memPct" stroke="#A855F7" fill="#A855F7" fillOpacity={0.15} strokeWidth={1.5} isAnimationActive={false} />
+              <Area type="monotone" dataKey="cpuPct" stroke="#00BFFF" fill="#00BFFF" fillOpacity={0.1} strokeWidth={1} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SystemOverviewPanel;
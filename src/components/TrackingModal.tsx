@@ -1,14 +1,6 @@
-import React from 'react';
-
-interface Process {
-  pid: number;
-  name: string;
-  user?: string;
-  analysis?: {
-    risk_level: string;
-  };
-  [key: string]: any;
-}
+import React, { useMemo, useState } from 'react';
+import { Process } from '../types';
+import { AppGroup, groupByApplication, groupLabel, formatBytes } from '../utils/appGroups';
 
 interface Props {
   isOpen: boolean;
@@ -18,8 +10,81 @@ interface Props {
 }
 
 const TrackingModal: React.FC<Props> = ({ isOpen, onClose, onClear, processes }) => {
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const groups = useMemo(() => groupByApplication(processes), [processes]);
+
   if (!isOpen) return null;
 
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderRiskBadge = (analysis?: Process['analysis']) => analysis ? (
+    <div className={`text-[10px] px-2 py-1 rounded-sm border font-mono uppercase tracking-wider
+        ${analysis.risk_level === 'Critical' ? 'border-risk-crit text-risk-crit bg-risk-crit/10 shadow-[0_0_10px_rgba(255,69,0,0.2)]' : 
+          analysis.risk_level === 'Bloat' ? 'border-risk-warn text-risk-warn bg-risk-warn/10' : 
+          'border-risk-safe text-risk-safe bg-risk-safe/10'}
+    `}>
+        {analysis.risk_level}
+    </div>
+  ) : (
+    <div className="text-[10px] text-gray-600 font-mono italic">NO ANALYSIS</div>
+  );
+
+  const renderGroup = (group: AppGroup, idx: number) => {
+    const isGroup = group.count > 1;
+    const isExpanded = expandedGroups.has(group.key);
+
+    return (
+      <div key={group.key} className="bg-white/5 border border-white/5 rounded-sm hover:bg-white/10 transition-colors group">
+        <div
+          onClick={isGroup ? () => toggleGroup(group.key) : undefined}
+          className={`p-3 flex justify-between items-center ${isGroup ? 'cursor-pointer' : ''}`}
+        >
+            <div className="flex items-center gap-4">
+                <div className="font-mono text-xs text-gray-500 w-8">{(idx + 1).toString().padStart(2, '0')}</div>
+                <div>
+                    <div className="text-neon-blue font-bold text-sm mb-0.5 tracking-wide flex items-center gap-2">
+                        {isGroup && <span className="text-[10px] text-gray-500">{isExpanded ? '▾' : '▸'}</span>}
+                        {groupLabel(group)}
+                    </div>
+                    <div className="text-[10px] text-gray-400 font-mono flex gap-3">
+                        {isGroup ? (
+                            <span>TOTAL: <span className="text-gray-300">{formatBytes(group.mem)}</span></span>
+                        ) : (
+                            <>
+                                <span>PID: <span className="text-gray-300">{group.primary.pid}</span></span>
+                                <span>USER: <span className="text-gray-300">{group.primary.user || 'SYSTEM'}</span></span>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+            {renderRiskBadge(group.analysis)}
+        </div>
+        {isGroup && isExpanded && (
+            <div className="border-t border-white/5 pl-16 pr-3 py-2 space-y-1">
+                {group.instances.map(p => (
+                    <div key={p.pid} className="text-[10px] text-gray-400 font-mono flex gap-3">
+                        <span>PID: <span className="text-gray-300">{p.pid}</span></span>
+                        <span>USER: <span className="text-gray-300">{p.user || 'SYSTEM'}</span></span>
+                        <span>MEM: <span className="text-gray-300">{(p.mem / 1024 / 1024).toFixed(0)} MB</span></span>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
       <div className="bg-tech-black border border-tech-gray rounded-sm w-full max-w-2xl max-h-[80vh] flex flex-col shadow-[0_0_50px_rgba(0,191,255,0.1)]">
@@ -46,32 +111,7 @@ const TrackingModal: React.FC<Props> = ({ isOpen, onClose, onClear, processes })
                     <span>NO PROCESSES CURRENTLY BEING TRACKED</span>
                 </div>
             ) : (
-                processes.map((p, idx) => (
-                    <div key={`${p.pid}-${idx}`} className="bg-white/5 border border-white/5 p-3 rounded-sm flex justify-between items-center hover:bg-white/10 transition-colors group">
-                        <div className="flex items-center gap-4">
-                            <div className="font-mono text-xs text-gray-500 w-8">{(idx + 1).toString().padStart(2, '0')}</div>
-                            <div>
-                                <div className="text-neon-blue font-bold text-sm mb-0.5 tracking-wide">{p.name}</div>
-                                <div className="text-[10px] text-gray-400 font-mono flex gap-3">
-                                    <span>PID: <span className="text-gray-300">{p.pid}</span></span>
-                                    <span>USER: <span className="text-gray-300">{p.user || 'SYSTEM'}</span></span>
-                                </div>
-                            </div>
-                        </div>
-                        {p.analysis && (
-                            <div className={`text-[10px] px-2 py-1 rounded-sm border font-mono uppercase tracking-wider
-                                ${p.analysis.risk_level === 'Critical' ? 'border-risk-crit text-risk-crit bg-risk-crit/10 shadow-[0_0_10px_rgba(255,69,0,0.2)]' : 
-                                  p.analysis.risk_level === 'Bloat' ? 'border-risk-warn text-risk-warn bg-risk-warn/10' : 
-                                  'border-risk-safe text-risk-safe bg-risk-safe/10'}
-                            `}>
-                                {p.analysis.risk_level}
-                            </div>
-                        )}
-                        {!p.analysis && (
-                             <div className="text-[10px] text-gray-600 font-mono italic">NO ANALYSIS</div>
-                        )}
-                    </div>
-                ))
+                groups.map(renderGroup)
             )}
         </div>
         
@@ -2,28 +2,43 @@ import React, { useMemo } from 'react';
 import { ResponsiveContainer, Treemap, Tooltip } from 'recharts';
 
 import { Process, FilterOptions } from '../types';
+import { indexProcessTree } from '../utils/processTree';
+import { groupByApplication, groupLabel } from '../utils/appGroups';
+
+export type TreemapLayout = 'risk' | 'tree';
 
 interface Props {
   processes: Process[];
   onSelect: (pid: number) => void;
   filters: FilterOptions;
+  layout?: TreemapLayout; // 'risk' groups by risk level, 'tree' nests children under their parent
 }
 
+type TreemapNode = {
+  name: string;
+  value?: number;
+  pid?: number;
+  risk?: string;
+  fill?: string;
+  count?: number; // Instances aggregated into this block
+  children?: TreemapNode[];
+};
+
 
-const TreemapViz: React.FC<Props> = ({ processes, onSelect, filters }) => {
+const TreemapViz: React.FC<Props> = ({ processes, onSelect, filters, layout = 'risk' }) => {
   // Transform data for Treemap
   const data = useMemo(() => {
     const { searchTerm, riskFilter, minCpu, minMem } = filters;
 
-    // Filter processes based on all controls
-    const validProcesses = processes.filter(p => {
+    const matchesFilters = (p: Process) => {
         const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase());
         const matchesRisk = riskFilter === 'All' || p.analysis?.risk_level === riskFilter;
         const matchesCpu = p.cpu >= minCpu;
         const matchesMem = (p.mem / 1024 / 1024) >= minMem;
         
         return matchesSearch && matchesRisk && matchesCpu && matchesMem;
-    });
+    };
+
     
     // Color mapping for risk levels (Muted Professional Palette)
     const colorMap: Record<string, string> = {
@@ -34,40 +49,70 @@ const TreemapViz: React.FC<Props> = ({ processes, onSelect, filters }) => {
       'Unanalyzed': '#000000ff' 
     };
     
+    const toLeaf = (p: Process): TreemapNode => {
+       const risk = p.analysis?.risk_level || 'Unanalyzed';
+       return {
+           ...p,
+           name: p.name,
+           value: p.mem,
+           pid: p.pid,
+           risk: risk,
+           fill: colorMap[risk] || '#333'
+       };
+    };
+
+    // Nested hierarchy: each parent becomes a group holding its own block plus its children.
+    // A filtered-out parent keeps its group if any descendant matches.
+    if (layout === 'tree') {
+        const { roots, children } = indexProcessTree(processes);
+
+        const toNode = (p: Process): TreemapNode | null => {
+            const childNodes = (children.get(p.pid) || [])
+                .map(toNode)
+                .filter((node): node is TreemapNode => node !== null);
+            const self = matchesFilters(p) ? toLeaf(p) : null;
+
+            if (childNodes.length === 0) return self;
+            return {
+                name: `${p.name} (${p.subtree?.count ?? childNodes.length + 1})`,
+                children: self ? [self, ...childNodes] : childNodes
+            };
+        };
+
+        return [{
+            name: 'Processes',
+            children: roots.map(toNode).filter((node): node is TreemapNode => node !== null)
+        }];
+    }
+
     // Group by Risk Level
     const grouped = {
         name: 'Processes',
         children: [
-            { name: 'Critical', children: [] as any[] }, // Prioritize Critical in order? Recharts might sort by size anyway
-            { name: 'Bloat', children: [] as any[] },
-            { name: 'Safe', children: [] as any[] },
-            { name: 'Unknown', children: [] as any[] },
-            { name: 'Unanalyzed', children: [] as any[] }
+            { name: 'Critical', children: [] as TreemapNode[] }, // Prioritize Critical in order? Recharts might sort by size anyway
+            { name: 'Bloat', children: [] as TreemapNode[] },
+            { name: 'Safe', children: [] as TreemapNode[] },
+            { name: 'Unknown', children: [] as TreemapNode[] },
+            { name: 'Unanalyzed', children: [] as TreemapNode[] }
         ]
     };
 
-    validProcesses.forEach(p => {
-       const risk = p.analysis?.risk_level || 'Unanalyzed';
-       const targetGroup = grouped.children.find(g => g.name === risk) || grouped.children.find(g => g.name === 'Unanalyzed');
-       
-       // Fallback color if risk not found
-       const fillColor = colorMap[risk] || '#333';
+    // One block per application, sized by the memory of all its instances.
+    // Filters apply to the aggregate, clicking selects the largest instance.
+    groupByApplication(processes).forEach(group => {
+       const aggregate = { ...group.primary, name: groupLabel(group), cpu: group.cpu, mem: group.mem, analysis: group.analysis };
+       if (!matchesFilters(aggregate)) return;
 
-       targetGroup?.children.push({
-           ...p,
-           name: p.name,
-           value: p.mem,  // Changed from 'size' to 'value' for Recharts
-           pid: p.pid,
-           risk: risk,
-           fill: fillColor 
-       });
+       const leaf = { ...toLeaf(aggregate), count: group.count };
+       const targetGroup = grouped.children.find(g => g.name === leaf.risk) || grouped.children.find(g => g.name === 'Unanalyzed');
+       targetGroup?.children.push(leaf);
     });
     
     // Filter out empty groups 
     grouped.children = grouped.children.filter(g => g.children.length > 0);
     
     return [grouped];
-  }, [processes, filters]);
+  }, [processes, filters, layout]);
 
   if (!data || !data[0] || !data[0].children || data[0].children.length === 0) {
       return (
@@ -110,6 +155,12 @@ const TreemapViz: React.FC<Props> = ({ processes, onSelect, filters }) => {
                                         <span className="text-gray-400">PID:</span>
                                         <span className="text-white">{data.pid}</span>
                                     </div>
+                                    {data.count > 1 && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-400">INSTANCES:</span>
+                                            <span className="text-white">{data.count}</span>
+                                        </div>
+                                    )}
                                     <div className="flex justify-between">
                                         <span className="text-gray-400">MEM:</span>
                                         <span className="text-white">{(data.value / 1024 / 1024).toFixed(0)} MB</span>
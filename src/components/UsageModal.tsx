@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { UsageReport, UsageTotals } from '../types';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+  ? `${(tokens / 1_000_000).toFixed(2)}M`
+  : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+interface UsageTableProps {
+  title: string;
+  rows: UsageTotals[];
+}
+
+const UsageTable: React.FC<UsageTableProps> = ({ title, rows }) => (
+  <div>
+    <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{title}</div>
+    {rows.length === 0 ? (
+      <div className="text-xs text-gray-600 font-mono py-2">No calls in this range</div>
+    ) : (
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal py-1"></th>
+            <th className="font-normal py-1 text-right">Calls</th>
+            <th className="font-normal py-1 text-right">Errors</th>
+            <th className="font-normal py-1 text-right">Prompt</th>
+            <th className="font-normal py-1 text-right">Output</th>
+            <th className="font-normal py-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-gray-800 text-gray-300">
+              <td className="py-1">{row.key}</td>
+              <td className="py-1 text-right tabular-nums">{row.calls}</td>
+              <td className={`py-1 text-right tabular-nums ${row.errors > 0 ? 'text-red-400' : ''}`}>{row.errors}</td>
+              <td className="py-1 text-right tabular-nums">{formatTokens(row.prompt_tokens)}</td>
+              <td className="py-1 text-right tabular-nums">{formatTokens(row.completion_tokens)}</td>
+              <td
+                className="py-1 text-right tabular-nums text-white"
+                title={row.unpriced_calls > 0 ? `${row.unpriced_calls} calls to models missing from the price table are not included` : undefined}
+              >
+                {formatCost(row.cost_usd)}{row.unpriced_calls > 0 ? '*' : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const UsageModal: React.FC<Props> = ({ isOpen, onClose }) => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    window.ipcRenderer.invoke('get-usage-report', days).then((result: UsageReport) => setReport(result));
+  }, [isOpen, days]);
+
+  if (!isOpen) return null;
+
+  const budgetShare = report && report.budgetUsd > 0 ? Math.min(1, report.spentUsd / report.budgetUsd) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-tech-black border border-tech-gray rounded-sm w-full max-w-3xl max-h-[80vh] flex flex-col shadow-[0_0_50px_rgba(0,255,255,0.1)]">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 border-b border-tech-gray bg-black/40">
+          <h2 className="text-xl font-bold text-white tracking-tight flex items-center gap-3 font-mono">
+            <span className="text-neon-cyan">$</span> AI USAGE
+          </h2>
+          <div className="flex items-center gap-4">
+            <div className="flex gap-1">
+              {RANGES.map(range => (
+                <button
+                  key={range}
+                  onClick={() => setDays(range)}
+                  className={`px-2 py-0.5 text-[10px] font-mono rounded-sm border ${days === range ? 'border-neon-cyan text-neon-cyan' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+                >
+                  {range}D
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-white transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar bg-black/20">
+          {report && (
+            <>
+              {/* Month to date */}
+              <div className="font-mono">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-wider">This month</span>
+                  <span className={`text-sm ${report.exceeded ? 'text-risk-crit' : 'text-white'}`}>
+                    {formatCost(report.spentUsd)}
+                    {report.budgetUsd > 0 && <span className="text-gray-500"> / {formatCost(report.budgetUsd)} budget</span>}
+                  </span>
+                </div>
+                {report.budgetUsd > 0 && (
+                  <div className="h-1.5 bg-gray-800 rounded-sm mt-1 overflow-hidden">
+                    <div
+                      className={`h-full ${report.exceeded ? 'bg-risk-crit' : budgetShare > 0.8 ? 'bg-risk-warn' : 'bg-risk-safe'}`}
+                      style={{ width: `${budgetShare * 100}%` }}
+                    />
+                  </div>
+                )}
+                {report.exceeded && (
+                  <p className="text-xs text-risk-crit mt-1">Budget reached: new analysis runs are blocked until next month or a higher budget is set in Settings.</p>
+                )}
+              </div>
+
+              <UsageTable title="Per provider" rows={report.byProvider} />
+              <UsageTable title="Per analysis mode" rows={report.byMode} />
+              <UsageTable title="Per day" rows={report.byDay} />
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-3 border-t border-tech-gray bg-black/40 text-[10px] text-gray-500 font-mono">
+          Costs are estimates from the price table in Settings. Local models are free; * marks calls to unpriced models.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
@@ -1,28 +1,169 @@
 export interface Analysis {
   risk_level: string;
+  source?: 'rules'; // Set when a critical local rule finding overrides the AI
+  ai_risk_level?: string;
+  stale?: boolean; // Older than the TTL for its risk level (electron/utils/analysisExpiry.ts)
+  last_updated?: string; // SQLite timestamp, UTC
   [key: string]: any;
 }
 
+// Local masquerade/anomaly rule hit (electron/utils/processRules.ts)
+export interface RuleFinding {
+  rule: string;
+  severity: 'critical' | 'warning';
+  message: string;
+}
+
 export interface DevModeAnalysis {
   type: 'Leak' | 'Inefficient' | 'Normal' | 'Suspicious';
   analysis: string;
   recommendation: string;
+  source?: 'detector' | 'ai+detector'; // Set when the local leak detector overrides or confirms the AI
+  ai_type?: DevModeAnalysis['type'];
+}
+
+// Local trend verdict over the recorded private memory history
+export interface LeakVerdict {
+  isLeak: boolean;
+  confidence: number;
+  growthMbPerHour: number;
+  rSquared: number;
+  monotonicity: number;
+  sampleCount: number;
+  windowMinutes: number;
+}
+
+// Same trend test over open handle / file descriptor counts
+export interface HandleLeakVerdict extends Omit<LeakVerdict, 'growthMbPerHour'> {
+  growthPerHour: number; // Handles per hour
+}
+
+// Totals over a process and all of its descendants (computed in the main process)
+export interface SubtreeTotals {
+  count: number;
+  cpu: number;
+  memRss: number; // bytes
+  privateMemory: number; // MB, RSS stands in where private memory is unknown
+}
+
+// Open sockets of a process (electron/utils/networkConnections.ts)
+export interface NetworkSummary {
+  listeningPorts: number[];
+  established: number;
+  remoteHosts: number; // Distinct non-loopback peers
+}
+
+export interface ProcessConnection {
+  protocol: string;
+  localAddress: string;
+  localPort: number | null;
+  peerAddress: string;
+  peerPort: number | null;
+  state: string;
+  listening: boolean;
+  loopback: boolean;
 }
 
 export interface Process {
   pid: number;
+  parentPid?: number;
+  treeParentPid?: number | null; // Resolved tree parent, null for roots
   name: string;
+  user?: string;
   cpu: number;
   mem: number; // RSS/Working Set in bytes
   memVirtual?: number; // Virtual memory in bytes (optional)
-  privateMemory?: number; // Private Working Set in MB (from PowerShell)
+  privateMemory?: number; // Private Working Set / USS in MB (from the platform memory provider)
   memRss?: number; // Total Working Set in bytes (for Dev Mode calculations)
+  memPss?: number; // Proportional Set Size in bytes (Linux only)
+  memSwap?: number; // Swapped-out memory in bytes (Linux only)
+  handles?: number; // Open handles (Windows) / file descriptors (Linux)
+  threads?: number;
+  leak?: LeakVerdict | null;
+  handleLeak?: HandleLeakVerdict | null;
+  net?: NetworkSummary;
+  exePath?: string; // Resolved executable path
+  exePathUnverified?: boolean; // Path taken from the command line, the executable was not readable
+  commandLine?: string;
+  exeHash?: string; // sha256 of the executable
+  identity?: string | null; // Analysis cache key, null while the executable is being hashed
+  findings?: RuleFinding[];
+  subtree?: SubtreeTotals;
   analysis?: Analysis;
 }
 
+// Machine-wide state streamed on system-update (electron/services/SystemCollector.ts)
+export interface SystemSnapshot {
+  ts: number;
+  memory: { total: number; used: number; available: number; cached: number; free: number }; // bytes
+  swap: { total: number; used: number };
+  commit?: { committed: number; limit: number }; // Linux only
+  cpu: { load: number; cores: number[] }; // %
+}
+
+// One row of get-process-history (electron/services/Database.ts)
+export interface ProcessSample {
+  ts: number;
+  resolution: number; // 0 = raw tick, otherwise bucket size in seconds
+  pid: number;
+  process_name: string;
+  cpu: number;
+  mem_rss: number;
+  private_mem: number | null;
+  mem_virtual: number;
+  handles: number | null;
+  threads: number | null;
+}
+
+// get-usage-report (electron/services/UsageService.ts)
+export interface UsageTotals {
+  key: string; // Day (YYYY-MM-DD), provider id or analysis mode
+  calls: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  unpriced_calls: number;
+}
+
+export interface UsageReport {
+  from: number;
+  spentUsd: number; // This calendar month
+  budgetUsd: number; // 0 = no budget
+  exceeded: boolean;
+  byDay: UsageTotals[];
+  byProvider: UsageTotals[];
+  byMode: UsageTotals[];
+}
+
+// One turn of an "ask about this process" conversation (electron/services/Database.ts)
+export interface ProcessChatMessage {
+  id?: number;
+  process_name: string;
+  identity: string;
+  ts: number;
+  role: 'user' | 'assistant';
+  content: string;
+  provider?: string | null;
+  model?: string | null;
+}
+
 export interface FilterOptions {
   searchTerm: string;
   riskFilter: string;
   minCpu: number;
   minMem: number;
 }
+
+// processes-update protocol: one snapshot, then deltas (mirrors electron/utils/processDelta.ts)
+export const PROCESS_PROTOCOL_VERSION = 1;
+
+export interface ProcessPatch {
+  pid: number;
+  set: Partial<Process>;
+  unset?: string[];
+}
+
+export type ProcessesUpdateMessage =
+  | { version: number; type: 'snapshot'; seq: number; processes: Process[] }
+  | { version: number; type: 'delta'; seq: number; added: Process[]; removed: number[]; changed: ProcessPatch[] };
@@ -0,0 +1,102 @@
+import { Process, Analysis } from '../types';
+
+export interface AppGroup<T extends Process = Process> {
+  key: string;            // Normalized application name
+  name: string;
+  instances: T[];         // Largest first
+  primary: T;             // Largest instance, stands in for the group when one PID is needed
+  count: number;
+  cpu: number;            // Sum over instances
+  mem: number;            // Sum of RSS in bytes
+  privateMemory?: number; // Sum in MB over instances that report it
+  analysis?: Analysis;    // Most alarming verdict among the instances (see groupAnalysis)
+}
+
+// Verdicts are per executable, so instances of one name can disagree; the group shows the worst
+const RISK_SEVERITY: Record<string, number> = {
+  SystemCritical: 1,
+  Safe: 2,
+  Bloat: 3,
+  Unknown: 4,
+  Critical: 5
+};
+
+/**
+ * Normalize a process name for grouping (case-insensitive, ignores a trailing .exe)
+ */
+export function appKey(name: string): string {
+  return name.toLowerCase().replace(/\.exe$/, '');
+}
+
+/**
+ * Group processes into applications by name, keeping every instance
+ * Groups are ordered by total memory, largest first
+ */
+export function groupByApplication<T extends Process>(processes: T[]): AppGroup<T>[] {
+  const groups = new Map<string, T[]>();
+
+  for (const p of processes) {
+    if (!p.name) continue;
+    const key = appKey(p.name);
+    const instances = groups.get(key);
+    if (instances) {
+      instances.push(p);
+    } else {
+      groups.set(key, [p]);
+    }
+  }
+
+  const result: AppGroup<T>[] = [];
+  groups.forEach((instances, key) => {
+    instances.sort((a, b) => b.mem - a.mem);
+    const withPrivate = instances.filter(p => p.privateMemory !== undefined);
+
+    result.push({
+      key,
+      name: instances[0].name,
+      instances,
+      primary: instances[0],
+      count: instances.length,
+      cpu: instances.reduce((sum, p) => sum + p.cpu, 0),
+      mem: instances.reduce((sum, p) => sum + p.mem, 0),
+      privateMemory: withPrivate.length > 0 ? withPrivate.reduce((sum, p) => sum + (p.privateMemory || 0), 0) : undefined,
+      analysis: groupAnalysis(instances)
+    });
+  });
+
+  return result.sort((a, b) => b.mem - a.mem);
+}
+
+/**
+ * The verdict a group is shown with: rule overrides first, then the highest risk level
+ * A masquerading svchost.exe must not hide behind the SystemCritical verdict of the genuine ones
+ */
+export function groupAnalysis(instances: Process[]): Analysis | undefined {
+  let worst: Analysis | undefined;
+  let worstRank = -1;
+
+  for (const p of instances) {
+    if (!p.analysis) continue;
+    const rank = (p.analysis.source === 'rules' ? 10 : 0) + (RISK_SEVERITY[p.analysis.risk_level] ?? 0);
+    if (rank > worstRank) {
+      worst = p.analysis;
+      worstRank = rank;
+    }
+  }
+  return worst;
+}
+
+/**
+ * Display label for a group, e.g. "chrome ×23"
+ */
+export function groupLabel(group: Pick<AppGroup, 'name' | 'count'>): string {
+  return group.count > 1 ? `${group.name} ×${group.count}` : group.name;
+}
+
+/**
+ * Human readable size for byte counts, e.g. "3.1 GB" or "512 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const mb = bytes / 1024 / 1024;
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${mb.toFixed(0)} MB`;
+}
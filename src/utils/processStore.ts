@@ -0,0 +1,108 @@
+import { Process, ProcessesUpdateMessage, PROCESS_PROTOCOL_VERSION } from '../types';
+
+type DeltaMessage = Extract<ProcessesUpdateMessage, { type: 'delta' }>;
+
+// 'resync' asks the caller to fetch a snapshot, 'pending' means a resync is already underway
+export type ApplyResult = 'applied' | 'resync' | 'pending' | 'ignored';
+
+/**
+ * Renderer-side copy of the process list, kept current by applying processes-update deltas.
+ * Unchanged processes keep their object identity between ticks so memoized views can skip them.
+ */
+export class ProcessStore {
+  private byPid = new Map<number, Process>();
+  private seq: number | null = null;
+  private awaitingSnapshot = false;
+  private buffered: DeltaMessage[] = [];
+  private cachedList: Process[] | null = [];
+
+  apply(update: ProcessesUpdateMessage): ApplyResult {
+    if (update.version !== PROCESS_PROTOCOL_VERSION) {
+      console.error(`Unsupported processes-update version ${update.version}, expected ${PROCESS_PROTOCOL_VERSION}`);
+      return 'ignored';
+    }
+
+    if (update.type === 'snapshot') {
+      return this.applySnapshot(update.seq, update.processes);
+    }
+
+    // Duplicate delivery (e.g. a listener registered twice) is harmless
+    if (this.seq !== null && update.seq <= this.seq) {
+      return 'ignored';
+    }
+
+    if (this.awaitingSnapshot) {
+      this.buffered.push(update);
+      return 'pending';
+    }
+
+    if (this.seq === null || update.seq !== this.seq + 1) {
+      // Sequence gap: hold on to this delta, it may follow the snapshot we are about to get
+      this.awaitingSnapshot = true;
+      this.buffered = [update];
+      return 'resync';
+    }
+
+    this.applyDelta(update);
+    return 'applied';
+  }
+
+  /**
+   * The snapshot request failed: drop what was buffered for it so the next delta asks again
+   */
+  resyncFailed() {
+    this.awaitingSnapshot = false;
+    this.buffered = [];
+  }
+
+  list(): Process[] {
+    if (!this.cachedList) {
+      this.cachedList = Array.from(this.byPid.values());
+    }
+    return this.cachedList;
+  }
+
+  private applySnapshot(seq: number, processes: Process[]): ApplyResult {
+    this.byPid = new Map(processes.map(p => [p.pid, p]));
+    this.seq = seq;
+    this.awaitingSnapshot = false;
+    this.cachedList = null;
+
+    // Replay deltas that arrived while the snapshot was in flight
+    const pending = this.buffered.filter(d => d.seq > seq).sort((a, b) => a.seq - b.seq);
+    this.buffered = [];
+    for (const delta of pending) {
+      if (delta.seq !== this.seq + 1) {
+        this.awaitingSnapshot = true;
+        return 'resync';
+      }
+      this.applyDelta(delta);
+    }
+
+    return 'applied';
+  }
+
+  private applyDelta(delta: DeltaMessage) {
+    for (const pid of delta.removed) {
+      this.byPid.delete(pid);
+    }
+
+    for (const p of delta.added) {
+      this.byPid.set(p.pid, p);
+    }
+
+    for (const patch of delta.changed) {
+      const existing = this.byPid.get(patch.pid);
+      if (!existing) continue;
+
+      const updated: Process = { ...existing, ...patch.set };
+      for (const key of patch.unset || []) {
+        delete (updated as unknown as Record<string, unknown>)[key];
+      }
+      this.byPid.set(patch.pid, updated);
+    }
+
+    this.seq = delta.seq;
+    this.cachedList = null;
+  }
+}
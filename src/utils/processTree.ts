@@ -0,0 +1,35 @@
+import { Process } from '../types';
+
+export interface ProcessTreeIndex<T extends Process> {
+  roots: T[];
+  children: Map<number, T[]>;
+}
+
+/**
+ * Index processes by their resolved tree parent (treeParentPid from the main process)
+ * Siblings are ordered by subtree memory, largest first
+ */
+export function indexProcessTree<T extends Process>(processes: T[]): ProcessTreeIndex<T> {
+  const roots: T[] = [];
+  const children = new Map<number, T[]>();
+
+  for (const p of processes) {
+    const parentPid = p.treeParentPid ?? null;
+    if (parentPid === null) {
+      roots.push(p);
+      continue;
+    }
+    const siblings = children.get(parentPid);
+    if (siblings) {
+      siblings.push(p);
+    } else {
+      children.set(parentPid, [p]);
+    }
+  }
+
+  const bySubtreeMem = (a: T, b: T) => (b.subtree?.memRss ?? b.mem) - (a.subtree?.memRss ?? a.mem);
+  roots.sort(bySubtreeMem);
+  children.forEach(list => list.sort(bySubtreeMem));
+
+  return { roots, children };
+}
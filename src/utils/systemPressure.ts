@@ -0,0 +1,38 @@
+import { SystemSnapshot } from '../types';
+
+export type PressureLevel = 'low' | 'moderate' | 'high';
+
+export interface MemoryPressure {
+  level: PressureLevel;
+  availablePct: number;
+  swapPct: number | null;   // null without swap
+  commitPct: number | null; // null where commit charge is unknown
+  advice: string;
+}
+
+/**
+ * Judge whether the machine as a whole is short on memory
+ * Available memory is the main signal; heavy swap use or a nearly exhausted
+ * commit limit raise the level even when some RAM is still free
+ */
+export function memoryPressure(snapshot: SystemSnapshot): MemoryPressure {
+  const { memory, swap, commit } = snapshot;
+  const availablePct = memory.total > 0 ? (memory.available / memory.total) * 100 : 100;
+  const swapPct = swap.total > 0 ? (swap.used / swap.total) * 100 : null;
+  const commitPct = commit && commit.limit > 0 ? (commit.committed / commit.limit) * 100 : null;
+
+  let level: PressureLevel = 'low';
+  if (availablePct < 10 || (availablePct < 20 && swapPct !== null && swapPct > 50)) {
+    level = 'high';
+  } else if (availablePct < 20 || (commitPct !== null && commitPct > 90)) {
+    level = 'moderate';
+  }
+
+  const advice = {
+    low: 'Plenty of memory available, nothing needs to be terminated',
+    moderate: 'Memory is getting tight, consider closing unused applications',
+    high: 'Memory pressure is high, freeing memory will help responsiveness'
+  }[level];
+
+  return { level, availablePct, swapPct, commitPct, advice };
+}
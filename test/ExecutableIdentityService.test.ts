@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { identityKey } from '../electron/services/ExecutableIdentityService.js';
+
+describe('identityKey', () => {
+  it('prefers the hash, then a readable path', () => {
+    assert.equal(identityKey({ path: '/usr/sbin/sshd', sha256: 'abc', hashState: 'done' }), 'sha256:abc');
+    assert.equal(identityKey({ path: '/usr/sbin/sshd', hashState: 'unavailable' }), 'path:/usr/sbin/sshd');
+    assert.equal(identityKey({ path: '/usr/sbin/sshd', hashState: 'pending' }), null);
+  });
+
+  it('keeps a path claimed by the command line apart from the real binary and from unknown processes', () => {
+    const claimed = identityKey({ path: '/tmp/sshd', hashState: 'unavailable', unverified: true });
+    assert.equal(claimed, 'unverified:/tmp/sshd');
+    assert.notEqual(identityKey({ path: '/usr/sbin/sshd', hashState: 'unavailable', unverified: true }), 'path:/usr/sbin/sshd');
+    assert.equal(identityKey({ hashState: 'unavailable' }), '');
+  });
+});
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalProvider, LocalProviderConfig } from '../electron/services/middleware/LocalProvider.js';
+import { startLocalProviderStub, LocalProviderStub, STUB_MODELS } from './localProviderStub.js';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a test.' },
+  { role: 'user' as const, content: 'hello' }
+];
+
+describe('LocalProvider', () => {
+  let stub: LocalProviderStub;
+
+  // Configured directly rather than through normalizeLocalProviderConfig, whose 5s minimum would slow the timeout test
+  const provider = (config: Partial<LocalProviderConfig>) => {
+    const local = new LocalProvider();
+    local.configure({ apiStyle: 'ollama', baseUrl: stub.baseUrl, timeoutMs: 5000, ...config });
+    return local;
+  };
+
+  before(async () => {
+    stub = await startLocalProviderStub();
+  });
+
+  after(async () => {
+    await stub.close();
+  });
+
+  it('speaks the Ollama /api/chat format', async () => {
+    const response = await provider({ apiStyle: 'ollama' }).complete({ messages, model: 'llama3', params: { temperature: 0.2 } });
+
+    assert.equal(response.text, 'echo: hello');
+    assert.equal(response.model, 'llama3');
+    assert.equal(response.truncated, false);
+    assert.deepEqual(response.usage, { promptTokens: 20, completionTokens: 11 });
+
+    const request = stub.requests[stub.requests.length - 1];
+    assert.equal(request.path, '/api/chat');
+    assert.equal(request.body.stream, false);
+    assert.deepEqual(request.body.options, { temperature: 0.2 });
+    assert.deepEqual(request.body.messages, messages);
+  });
+
+  it('speaks the OpenAI chat completions format, with or without /v1 in the base URL', async () => {
+    for (const baseUrl of [stub.baseUrl, `${stub.baseUrl}/v1/`]) {
+      const response = await provider({ apiStyle: 'openai', baseUrl, apiKey: 'secret' }).complete({ messages, model: 'qwen', params: { temperature: 0.2 } });
+
+      assert.equal(response.text, 'echo: hello');
+      assert.equal(response.model, 'qwen');
+      assert.equal(response.truncated, false);
+      assert.deepEqual(response.usage, { promptTokens: 20, completionTokens: 11 });
+
+      const request = stub.requests[stub.requests.length - 1];
+      assert.equal(request.path, '/v1/chat/completions');
+      assert.equal(request.authorization, 'Bearer secret');
+      assert.equal(request.body.temperature, 0.2);
+    }
+  });
+
+  it('reports answers cut at the output limit in both formats', async () => {
+    for (const apiStyle of ['ollama', 'openai'] as const) {
+      const response = await provider({ apiStyle }).complete({ messages, model: STUB_MODELS.length });
+      assert.equal(response.truncated, true, apiStyle);
+    }
+  });
+
+  it('turns an error status into an error with the body and Retry-After', async () => {
+    await assert.rejects(
+      provider({ apiStyle: 'ollama' }).complete({ messages, model: STUB_MODELS.error }),
+      { message: 'Local provider refused: 503 Service Unavailable - model is loading (Retry-After: 7)' }
+    );
+  });
+
+  it('gives up after the configured timeout', async () => {
+    const started = Date.now();
+    await assert.rejects(
+      provider({ apiStyle: 'openai', timeoutMs: 200 }).complete({ messages, model: STUB_MODELS.slow }),
+      /Local provider timed out after 0s/
+    );
+    assert.ok(Date.now() - started < 1500, 'returned before the stub answered');
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const pending = provider({ apiStyle: 'ollama' }).complete({ messages, model: STUB_MODELS.slow, signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    await assert.rejects(pending, { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupByApplication } from '../src/utils/appGroups.js';
+import { Process } from '../src/types.js';
+
+const svchost = (pid: number, mem: number, analysis?: Process['analysis']): Process => ({
+  pid, name: 'svchost.exe', cpu: 0, mem, analysis
+});
+
+describe('groupByApplication', () => {
+  it('shows a group with the worst verdict among its instances, not the largest instance', () => {
+    const [group] = groupByApplication([
+      svchost(900, 80e6, { risk_level: 'SystemCritical' }),
+      svchost(4100, 5e6, { risk_level: 'Critical', source: 'rules', ai_risk_level: 'SystemCritical' }),
+      svchost(1200, 40e6, { risk_level: 'SystemCritical' })
+    ]);
+
+    assert.equal(group.primary.pid, 900);
+    assert.equal(group.analysis?.risk_level, 'Critical');
+    assert.equal(group.analysis?.source, 'rules');
+  });
+
+  it('prefers a rule override over an AI verdict of the same level', () => {
+    const [group] = groupByApplication([
+      svchost(900, 80e6, { risk_level: 'Critical', description: 'ai' }),
+      svchost(4100, 5e6, { risk_level: 'Critical', source: 'rules' })
+    ]);
+    assert.equal(group.analysis?.source, 'rules');
+  });
+
+  it('ranks an unanalyzed instance below any verdict', () => {
+    const [group] = groupByApplication([svchost(900, 80e6), svchost(1200, 40e6, { risk_level: 'Safe' })]);
+    assert.equal(group.analysis?.risk_level, 'Safe');
+  });
+});
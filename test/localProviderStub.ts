@@ -0,0 +1,114 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  path: string;
+  authorization?: string;
+  body: {
+    model: string;
+    messages: Array<{ role: string; content: string }>;
+    stream?: boolean;
+    options?: Record<string, unknown>;
+    [param: string]: unknown;
+  };
+}
+
+export interface LocalProviderStub {
+  baseUrl: string;
+  requests: StubRequest[]; // Every chat request received, in order
+  close(): Promise<void>;
+}
+
+/**
+ * Models that make the stub misbehave; any other model gets an echo of the last user message
+ */
+export const STUB_MODELS = {
+  slow: 'stub-slow',     // Answers after slowMs, for timeouts and aborts
+  error: 'stub-error',   // 503 with a Retry-After header
+  length: 'stub-length'  // Answer cut at the output token limit
+};
+
+/**
+ * Minimal local model server speaking Ollama's /api/chat and the OpenAI /v1/chat/completions API
+ * Listens on a random localhost port
+ */
+export async function startLocalProviderStub(slowMs = 2000): Promise<LocalProviderStub> {
+  const requests: StubRequest[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const path = req.url || '';
+      if (req.method !== 'POST' || (path !== '/api/chat' && path !== '/v1/chat/completions')) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end(`No route for ${req.method} ${path}`);
+        return;
+      }
+
+      let body: StubRequest['body'];
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Invalid JSON body');
+        return;
+      }
+      requests.push({ path, authorization: req.headers.authorization, body });
+
+      if (body.model === STUB_MODELS.error) {
+        res.writeHead(503, 'Service Unavailable', { 'Content-Type': 'text/plain', 'Retry-After': '7' }).end('model is loading');
+        return;
+      }
+
+      const answer = () => {
+        const lastUser = [...body.messages].reverse().find(m => m.role === 'user');
+        const content = `echo: ${lastUser?.content ?? ''}`;
+        const truncated = body.model === STUB_MODELS.length;
+        const promptTokens = body.messages.reduce((sum, m) => sum + m.content.length, 0);
+
+        const payload = path === '/api/chat'
+          ? {
+            model: body.model,
+            created_at: new Date().toISOString(),
+            message: { role: 'assistant', content },
+            done: true,
+            done_reason: truncated ? 'length' : 'stop',
+            prompt_eval_count: promptTokens,
+            eval_count: content.length
+          }
+          : {
+            id: `chatcmpl-${requests.length}`,
+            object: 'chat.completion',
+            model: body.model,
+            choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: truncated ? 'length' : 'stop' }],
+            usage: { prompt_tokens: promptTokens, completion_tokens: content.length, total_tokens: promptTokens + content.length }
+          };
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+      };
+
+      if (body.model === STUB_MODELS.slow) {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          if (!res.destroyed) answer();
+        }, slowMs);
+        timers.add(timer);
+        return;
+      }
+      answer();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
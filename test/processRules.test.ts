@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateProcessRules, RuleContext } from '../electron/utils/processRules.js';
+
+const windows: RuleContext = { platform: 'win32', systemRoot: 'C:\\Windows' };
+const linux: RuleContext = { platform: 'linux', systemRoot: '' };
+
+const wrongUser = (findings: ReturnType<typeof evaluateProcessRules>) => findings.find(f => f.rule === 'system-name-wrong-user');
+
+describe('system-name-wrong-user', () => {
+  it('flags a Windows session process running under a user account', () => {
+    const finding = wrongUser(evaluateProcessRules(
+      { pid: 4242, name: 'csrss.exe', user: 'DESKTOP\\alice', exePath: 'C:\\Windows\\System32\\csrss.exe' },
+      windows
+    ));
+    assert.equal(finding?.severity, 'critical');
+    assert.equal(finding?.message, 'csrss.exe normally runs as SYSTEM but is running as DESKTOP\\alice');
+  });
+
+  it('accepts SYSTEM and leaves processes with an unknown owner alone', () => {
+    const exePath = 'C:\\Windows\\System32\\lsass.exe';
+    assert.equal(wrongUser(evaluateProcessRules({ pid: 700, name: 'lsass.exe', user: 'NT AUTHORITY\\SYSTEM', exePath }, windows)), undefined);
+    assert.equal(wrongUser(evaluateProcessRules({ pid: 700, name: 'lsass.exe', user: '', exePath }, windows)), undefined);
+  });
+
+  it('flags a root-only Linux daemon running as another user', () => {
+    const finding = wrongUser(evaluateProcessRules(
+      { pid: 31337, name: 'systemd-journal', user: 'www-data', exePath: '/usr/lib/systemd/systemd-journald' },
+      linux
+    ));
+    assert.equal(finding?.message, 'systemd-journal normally runs as root but is running as www-data');
+  });
+
+  it('accepts root, and daemons that also run per user', () => {
+    assert.equal(wrongUser(evaluateProcessRules({ pid: 400, name: 'systemd-logind', user: 'root' }, linux)), undefined);
+    assert.equal(wrongUser(evaluateProcessRules({ pid: 1500, name: 'sshd', user: 'alice' }, linux)), undefined);
+  });
+});
@@ -11,7 +11,8 @@ export default defineConfig({
     electron({
       main: {
         // Shortcut of `build.lib.entry`.
-        entry: 'electron/main.ts',
+        // collector.ts is the worker thread that samples and enriches processes
+        entry: ['electron/main.ts', 'electron/collector.ts'],
         vite: {
             build: {
                 rollupOptions: {